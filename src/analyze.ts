@@ -1,13 +1,37 @@
-import { clamp, log10, round, isCorePath, isTestsPath, isDepsPath, isInfraPath, isDocsPath } from "./utils";
+import { clamp, log10, round } from "./utils";
+import { DEFAULT_CLASSIFIER, PathClassifier, RuleConfig } from "./config";
+import { CENTRAL_FAN_IN, Criticality } from "./graph";
+import { ApiChange, ApiDiff } from "./api";
+import type { MissingCoChange } from "./coupling";
+import type { DepChange, DepChangeKind, DepScope, DepsDiff } from "./deps";
+import { Codeowners, Ownership, resolveOwnership } from "./owners";
+import { evaluateRules, ruleDriverKey, RuleDriverKey, RuleHit } from "./rules";
+import { DEFAULT_PROFILE, ReviewModel, ScoringModel, scoringModel, ScoringProfile, SUB_SCORES, Thresholds, verdictEmojiFor } from "./profile";
 
 export type ClassifiedCounts = {
   F: number;
   L: number;
   C: number;
+  K: number; // core criticality: sum of import-graph weights of core files (= C without a graph)
+  Kmax: number; // weight of the most central core file touched (1 without a graph)
   T: number;
   D: number;
+  Dw: number | null; // weighted dependency changes; null = no semantic diff (flat weight per deps file)
+  Dn: number; // direct dependency changes
+  Dmajor: number; // new runtime dependencies and major bumps
   I: number;
-  H: number;
+  H: number; // touched files at or above HOT_HEAT
+  Hh: number; // summed heat of those files (each capped at MAX_FILE_HEAT)
+  R: number; // pure renames (moves), scored at a tenth of a file
+  X: number; // removed files
+  G: number; // generated, vendored or binary files left out of scoring
+  Ab: number; // breaking public API changes (removed, renamed, re-typed exports)
+  Aa: number; // additive public API changes (new exports)
+  M: number; // usual co-change partners left untouched (file and directory rules)
+  P: number; // workspace packages touched (monorepo mode; 0 otherwise)
+  O: number; // CODEOWNERS owner groups touched (0 without a CODEOWNERS file)
+  U: number; // changed files without a CODEOWNERS owner
+  deletionHeavy: boolean;
   docsOnly: boolean;
   testCoverage: number;
 };
@@ -18,6 +42,10 @@ export type Scores = {
   S_infra: number;
   S_hot: number;
   S_quality: number;
+  S_api: number;
+  S_cochange: number;
+  S_spread: number;
+  S_owners: number;
   base: number;
   amp: number;
   score: number;
@@ -25,14 +53,31 @@ export type Scores = {
   verdictEmoji: "🟢" | "🟡" | "🔴";
 };
 
+export const DRIVER_KEYS = [
+  "Core changed without tests",
+  "Dependency churn",
+  "Infra/config touched",
+  "Hotspot repeatedly modified",
+  "Large change size",
+  "Low test coverage",
+  "API surface changed",
+  "Missing co-change",
+  "Cross-package spread",
+  "Ownership spread"
+] as const;
+
+export type BuiltinDriverKey = (typeof DRIVER_KEYS)[number];
+
+// Built-in drivers, plus "rule:<id>" for custom rules from the config file.
+export type DriverKey = BuiltinDriverKey | RuleDriverKey;
+
+// Driver keys accepted by fail-on-drivers and labels.drivers.
+export function knownDriverKeys(rules: RuleConfig[] = []): string[] {
+  return [...DRIVER_KEYS, ...rules.map((r) => ruleDriverKey(r.id))];
+}
+
 export type Driver = {
-  key:
-    | "Core changed without tests"
-    | "Dependency churn"
-    | "Infra/config touched"
-    | "Hotspot repeatedly modified"
-    | "Large change size"
-    | "Low test coverage";
+  key: DriverKey;
   label: string;
   contribution: number;
 };
@@ -41,121 +86,305 @@ export type AnalyzeResult = {
   counts: ClassifiedCounts;
   scores: Scores;
   driversTop3: Driver[];
+  drivers: Driver[]; // every active driver, ranked
+  centralFiles: CentralFile[]; // most imported files touched, highest fan-in first
+  apiChanges: ApiChange[];
+  missingCoChanges: MissingCoChange[];
+  depChanges: DepChange[];
   suggestedActions: string[];
+  ownership: Ownership | null; // null without a CODEOWNERS file
+  ruleHits: RuleHit[]; // custom rules that matched
+  model: ScoringModel; // scoring profile the scores come from
 };
 
+export type CentralFile = {
+  path: string;
+  fanIn: number;
+};
+
+export type FileStatus = "added" | "removed" | "modified" | "renamed" | "copied" | "changed" | "unchanged";
+
 export type PRFile = {
   filename: string;
   additions: number;
   deletions: number;
+  status?: FileStatus; // absent = modified (older baselines, plain numstat)
+  previousFilename?: string;
+  binary?: boolean;
 };
 
-export function classifyFiles(files: PRFile[], hotspotSet: Set<string>): ClassifiedCounts {
+// Share of deleted lines above which a change is treated as a clean-up rather than new code.
+const DELETION_HEAVY_RATIO = 0.8;
+const DELETION_HEAVY_MIN_LINES = 20;
+
+export function isPureRename(f: PRFile): boolean {
+  return f.status === "renamed" && (f.additions || 0) + (f.deletions || 0) === 0;
+}
+
+// Deps files always count: lockfiles are often marked linguist-generated.
+export function isExcludedFile(f: PRFile, classifier: PathClassifier = DEFAULT_CLASSIFIER): boolean {
+  if (classifier.deps(f.filename)) return false;
+  return Boolean(f.binary) || classifier.generated(f.filename);
+}
+
+// Recency-weighted change frequency from the baseline: one merged PR counts 1 on its merge
+// day and halves every `halfLifeDays`. Directory heat is the mean heat of the files below it.
+export type HeatMap = {
+  halfLifeDays: number;
+  files: Record<string, number>;
+  dirs: Record<string, number>;
+};
+
+export const EMPTY_HEAT: HeatMap = { halfLifeDays: 30, files: {}, dirs: {} };
+
+// A file is a hotspot from about two recent PRs; files unseen in the window inherit
+// part of the heat of their nearest recorded directory.
+export const HOT_HEAT = 2;
+const DIR_HEAT_SHARE = 0.75;
+const MAX_FILE_HEAT = 5;
+
+export function pathHeat(heat: HeatMap, p: string): number {
+  const own = heat.files[p];
+  if (own !== undefined) return own;
+  for (let d = p.lastIndexOf("/"); d > 0; d = p.lastIndexOf("/", d - 1)) {
+    const dirHeat = heat.dirs[p.slice(0, d)];
+    if (dirHeat !== undefined) return DIR_HEAT_SHARE * dirHeat;
+  }
+  return 0;
+}
+
+// Renamed files keep the history of their previous path.
+export function fileHeat(f: PRFile, heat: HeatMap): number {
+  return Math.max(pathHeat(heat, f.filename), f.previousFilename !== undefined ? pathHeat(heat, f.previousFilename) : 0);
+}
+
+export function hotspotFiles(heat: HeatMap): string[] {
+  return Object.keys(heat.files).filter((p) => heat.files[p] >= HOT_HEAT);
+}
+
+export function isHotspotFile(f: PRFile, heat: HeatMap): boolean {
+  return fileHeat(f, heat) >= HOT_HEAT;
+}
+
+export function classifyFiles(
+  files: PRFile[],
+  heat: HeatMap,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null
+): ClassifiedCounts {
   let F = 0,
     L = 0,
     C = 0,
+    K = 0,
+    Kmax = 0,
     T = 0,
     D = 0,
     I = 0,
-    H = 0;
+    H = 0,
+    Hh = 0,
+    R = 0,
+    X = 0,
+    G = 0;
 
   let docsCount = 0;
+  let deletedLines = 0;
 
   for (const f of files) {
+    if (isPureRename(f)) {
+      R += 1;
+      continue;
+    }
+    if (isExcludedFile(f, classifier)) {
+      G += 1;
+      continue;
+    }
+
     F += 1;
     const lines = (f.additions || 0) + (f.deletions || 0);
     L += lines;
+    deletedLines += f.deletions || 0;
+    if (f.status === "removed") X += 1;
 
     const path = f.filename;
-    const isDocs = isDocsPath(path);
+    const isDocs = classifier.docs(path);
     if (isDocs) docsCount += 1;
 
-    if (isCorePath(path)) C += 1;
-    if (isTestsPath(path)) T += 1;
-    if (isDepsPath(path)) D += 1;
-    if (isInfraPath(path)) I += 1;
-
-    if (hotspotSet.has(path)) H += 1;
+    // With an import graph, heavily imported files are core wherever they live,
+    // and each core file weighs by its fan-in instead of counting 1.
+    const fanIn = criticality?.fanIn(path) ?? null;
+    if (classifier.core(path) || (fanIn !== null && fanIn >= CENTRAL_FAN_IN)) {
+      const w = criticality?.weight(path) ?? 1;
+      C += 1;
+      K += w;
+      Kmax = Math.max(Kmax, w);
+    }
+    if (classifier.tests(path)) T += 1;
+    if (classifier.deps(path)) D += 1;
+    if (classifier.infra(path)) I += 1;
+
+    const h = fileHeat(f, heat);
+    if (h >= HOT_HEAT) {
+      H += 1;
+      Hh += Math.min(MAX_FILE_HEAT, h);
+    }
   }
 
-  const docsOnly = files.length > 0 && docsCount === files.length;
-  const testCoverage = T / Math.max(1, C);
+  const docsOnly = F > 0 && docsCount === F;
+  const testCoverage = T / Math.max(1, K);
+  const deletionHeavy = L >= DELETION_HEAVY_MIN_LINES && deletedLines / L >= DELETION_HEAVY_RATIO;
 
-  return { F, L, C, T, D, I, H, docsOnly, testCoverage };
+  return { F, L, C, K, Kmax, T, D, Dw: null, Dn: 0, Dmajor: 0, I, H, Hh, R, X, G, Ab: 0, Aa: 0, M: 0, P: 0, O: 0, U: 0, deletionHeavy, docsOnly, testCoverage };
 }
 
-export function computeReviewMinutes(F: number, L: number, C: number, T: number, D: number, I: number, H: number): number {
-  const sizeUnits = Math.sqrt(Math.max(0, L)) + 2 * F;
+// A missed file partner weighs more than a missed directory; both scale with the rule's confidence.
+const COCHANGE_WEIGHTS = { file: 30, dir: 15 };
+
+// Per deps file when nothing is known about its contents (no semantic diff, or an unparsed format).
+const DEPS_FILE_WEIGHT = 35;
+// Points per direct dependency change; a runtime addition or major bump outweighs any number of dev patches.
+const DEP_CHANGE_WEIGHTS: Record<DepChangeKind, Record<DepScope, number>> = {
+  added: { runtime: 12, dev: 4 },
+  major: { runtime: 15, dev: 5 },
+  removed: { runtime: 6, dev: 2 },
+  changed: { runtime: 6, dev: 2 },
+  minor: { runtime: 4, dev: 1.5 },
+  patch: { runtime: 1.5, dev: 0.5 }
+};
+const TRANSITIVE_WEIGHT = 0.5;
+const TRANSITIVE_CAP = 15;
+// Touching a deps file with no parsed dependency change (scripts, metadata) still counts a little.
+const DEPS_FILE_FLOOR = 5;
+// Dependency churn at or above this S_deps feeds the deps+infra and deps+core amplifiers.
+const DEPS_AMP_THRESHOLD = 20;
+
+export function dependencyWeight(deps: DepsDiff): number {
+  const direct = deps.changes.reduce((sum, c) => sum + DEP_CHANGE_WEIGHTS[c.change][c.scope], 0);
+  return direct + Math.min(TRANSITIVE_CAP, TRANSITIVE_WEIGHT * deps.transitive);
+}
 
-  const m_core = 1 + 0.15 * Math.min(5, C);
-  const m_infra = 1 + 0.2 * Math.min(3, I);
-  const m_deps = 1 + 0.25 * Math.min(2, D);
-  const m_hot = 1 + 0.1 * Math.min(5, H);
-  const m_tests = 1 - 0.1 * Math.min(3, T);
+// Deps files the semantic diff could not read keep the flat per-file weight.
+function unparsedDepsFiles(files: PRFile[], deps: DepsDiff, classifier: PathClassifier): number {
+  const parsed = new Set(deps.manifests);
+  return files.filter((f) => !isPureRename(f) && classifier.deps(f.filename) && !parsed.has(f.filename)).length;
+}
 
-  const raw = (sizeUnits / 12) * m_core * m_infra * m_deps * m_hot * m_tests;
-  return clamp(5, 90, round(raw));
+export function computeReviewMinutes(
+  F: number,
+  L: number,
+  C: number,
+  T: number,
+  D: number,
+  I: number,
+  H: number,
+  R: number = 0,
+  model: ReviewModel = DEFAULT_PROFILE.review
+): number {
+  const sizeUnits = Math.sqrt(Math.max(0, L)) + model.perFile * F + model.perRename * R;
+
+  const m_core = 1 + model.core * Math.min(5, C);
+  const m_infra = 1 + model.infra * Math.min(3, I);
+  const m_deps = 1 + model.deps * Math.min(2, D);
+  const m_hot = 1 + model.hotspots * Math.min(5, H);
+  const m_tests = 1 - model.tests * Math.min(3, T);
+
+  const raw = (sizeUnits / model.unitsPerMinute) * m_core * m_infra * m_deps * m_hot * m_tests;
+  return clamp(model.min, model.max, round(raw));
 }
 
-export function computeScores(counts: ClassifiedCounts): Scores {
-  const { F, L, C, T, D, I, H, testCoverage, docsOnly } = counts;
+export function computeScores(counts: ClassifiedCounts, coChanges: MissingCoChange[] = [], profile: ScoringProfile = DEFAULT_PROFILE): Scores {
+  const { F, L, C, K, Kmax, T, D, Dw, I, H, Hh, R, Ab, Aa, P, O, deletionHeavy, testCoverage, docsOnly } = counts;
 
-  const S_size = clamp(0, 100, 8 * F + 12 * log10(1 + Math.max(0, L)));
-  const S_deps = clamp(0, 100, 35 * D);
+  // Moves count a tenth of a file; clean-ups (mostly deletions) count half size and half test gap.
+  const cleanup = deletionHeavy ? 0.5 : 1;
+  const S_size = clamp(0, 100, cleanup * (8 * (F + 0.1 * R) + 12 * log10(1 + Math.max(0, L))));
+  const S_deps = clamp(0, 100, Dw === null ? DEPS_FILE_WEIGHT * D : Math.max(DEPS_FILE_FLOOR * D, Dw));
   const S_infra = clamp(0, 100, 25 * I);
-  const S_hot = clamp(0, 100, 20 * H);
-  const S_quality = clamp(0, 100, 60 * (1 - Math.min(1, testCoverage)));
+  // A file at HOT_HEAT scores 20, like the former flat hotspot weight; hotter files up to 50.
+  const S_hot = clamp(0, 100, 10 * Hh);
+  const S_quality = clamp(0, 100, cleanup * 60 * (1 - Math.min(1, testCoverage)));
+
+  const S_api = clamp(0, 100, 30 * Ab + 5 * Aa);
+  const S_cochange = clamp(0, 100, coChanges.reduce((sum, m) => sum + COCHANGE_WEIGHTS[m.level] * m.confidence, 0));
+  // One package is the normal case; each additional package touched adds 25.
+  const S_spread = clamp(0, 100, 25 * Math.max(0, P - 1));
+  // Same for ownership: each owner group beyond the first adds 20.
+  const S_owners = clamp(0, 100, 20 * Math.max(0, O - 1));
 
-  const base = 0.35 * S_size + 0.2 * S_quality + 0.2 * S_deps + 0.15 * S_infra + 0.1 * S_hot;
+  const components = { S_size, S_quality, S_deps, S_infra, S_hot, S_api, S_cochange, S_spread, S_owners };
+  const base = SUB_SCORES.reduce((sum, k) => sum + profile.weights[k] * components[k], 0);
 
+  const a = profile.amplifiers;
   let amp = 1.0;
-  if (C > 0 && T === 0) amp += 0.15;
-  if (D > 0 && I > 0) amp += 0.1;
-  if (C > 0 && D > 0) amp += 0.1;
-  if (H >= 2) amp += 0.05;
-  amp = Math.min(1.4, amp);
+  // Scaled by the most central core file: a leaf counts half, a widely imported file up to double.
+  if (C > 0 && T === 0 && !deletionHeavy) amp += a.coreNoTests * clamp(0.5, 2, Kmax);
+  const depsMatter = Dw === null ? D > 0 : S_deps >= DEPS_AMP_THRESHOLD;
+  if (depsMatter && I > 0) amp += a.depsInfra;
+  if (C > 0 && depsMatter) amp += a.depsCore;
+  if (H >= 2) amp += a.hotspots;
+  if (P >= 3) amp += a.spread;
+  amp = Math.min(a.cap, amp);
 
   let score = clamp(0, 100, round(base * amp));
 
   // Docs-only cap
-  if (docsOnly) score = Math.min(score, 25);
+  if (docsOnly) score = Math.min(score, profile.docsOnlyCap);
 
-  const verdictEmoji = score <= 39 ? "🟢" : score <= 69 ? "🟡" : "🔴";
-  const reviewMinutes = computeReviewMinutes(F, L, C, T, D, I, H);
+  const verdictEmoji = verdictEmojiFor(score, profile.thresholds);
+  const reviewMinutes = computeReviewMinutes(F, L, K, T, D, I, H, R, profile.review);
 
-  return { S_size, S_deps, S_infra, S_hot, S_quality, base, amp, score, reviewMinutes, verdictEmoji };
+  return { S_size, S_deps, S_infra, S_hot, S_quality, S_api, S_cochange, S_spread, S_owners, base, amp, score, reviewMinutes, verdictEmoji };
 }
 
-export function pickDrivers(counts: ClassifiedCounts, scores: Scores): Driver[] {
-  const { C, T, D, I, H, testCoverage } = counts;
-  const { S_size, S_quality, S_deps, S_infra, S_hot } = scores;
+export function collectDrivers(
+  counts: ClassifiedCounts,
+  scores: Scores,
+  coChanges: MissingCoChange[] = [],
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  ruleHits: RuleHit[] = []
+): Driver[] {
+  const { C, Kmax, T, D, Dw, Dn, Dmajor, I, H, Ab, Aa, M, P, O, U, deletionHeavy, testCoverage } = counts;
+  const { S_size, S_quality, S_deps, S_infra, S_hot, S_api, S_cochange, S_spread, S_owners } = scores;
+  const w = profile.weights;
 
   const drivers: Driver[] = [];
 
   // contribution weights aligned with base weights + amplification bonuses
-  const contribLarge = 0.35 * S_size;
+  const contribLarge = w.S_size * S_size;
 
-  const qualityBase = 0.2 * S_quality;
-  const bonusCoreNoTests = C > 0 && T === 0 ? 12 : 0; // pushes it up when it matters
+  const qualityBase = w.S_quality * S_quality;
+  const coreNoTests = C > 0 && T === 0 && !deletionHeavy;
+  const bonusCoreNoTests = coreNoTests ? 12 : 0; // pushes it up when it matters
   const contribLowTests = qualityBase + (testCoverage < 1 ? 0 : 0) + bonusCoreNoTests;
 
-  const depsBase = 0.2 * S_deps;
-  const bonusDepsInfra = D > 0 && I > 0 ? 6 : 0;
-  const bonusDepsCore = C > 0 && D > 0 ? 6 : 0;
+  const depsBase = w.S_deps * S_deps;
+  const depsMatter = Dw === null ? D > 0 : S_deps >= DEPS_AMP_THRESHOLD;
+  const bonusDepsInfra = depsMatter && I > 0 ? 6 : 0;
+  const bonusDepsCore = C > 0 && depsMatter ? 6 : 0;
   const contribDeps = depsBase + bonusDepsInfra + bonusDepsCore;
 
-  const infraBase = 0.15 * S_infra;
+  const infraBase = w.S_infra * S_infra;
   const contribInfra = infraBase;
 
-  const hotBase = 0.1 * S_hot;
+  const hotBase = w.S_hot * S_hot;
   const bonusHot = H >= 2 ? 3 : 0;
   const contribHot = hotBase + bonusHot;
 
-  if (C > 0 && T === 0) {
+  const apiBase = w.S_api * S_api;
+  const bonusBreaking = Ab > 0 ? 8 : 0;
+  const contribApi = apiBase + bonusBreaking;
+
+  const cochangeBase = w.S_cochange * S_cochange;
+  const bonusFilePartner = coChanges.some((m) => m.level === "file") ? 4 : 0;
+  const contribCochange = cochangeBase + bonusFilePartner;
+
+  const contribSpread = w.S_spread * S_spread + (P >= 3 ? 5 : 0);
+  const contribOwners = w.S_owners * S_owners + (O >= 3 ? 5 : 0);
+
+  if (coreNoTests) {
     drivers.push({
       key: "Core changed without tests",
       label: "Core code modified without tests",
-      contribution: bonusCoreNoTests + 0.15 * 100 // reflect amp effect
+      contribution: bonusCoreNoTests + profile.amplifiers.coreNoTests * 100 * clamp(0.5, 2, Kmax) // reflect amp effect
     });
   }
 
@@ -166,7 +395,14 @@ export function pickDrivers(counts: ClassifiedCounts, scores: Scores): Driver[]
   }
 
   if (D > 0) {
-    drivers.push({ key: "Dependency churn", label: "Dependency churn above baseline", contribution: contribDeps });
+    let label = "Dependency churn above baseline";
+    if (Dw !== null) {
+      label =
+        Dn === 0
+          ? "Dependency files touched (no direct dependency changes)"
+          : `Dependency churn: ${Dn} direct change(s)${Dmajor > 0 ? `, ${Dmajor} new runtime or major` : ""}`;
+    }
+    drivers.push({ key: "Dependency churn", label, contribution: contribDeps });
   }
 
   if (I > 0) {
@@ -177,6 +413,39 @@ export function pickDrivers(counts: ClassifiedCounts, scores: Scores): Driver[]
     drivers.push({ key: "Hotspot repeatedly modified", label: "Repeated changes in hotspot folders", contribution: contribHot });
   }
 
+  if (Ab > 0 || Aa > 0) {
+    drivers.push({
+      key: "API surface changed",
+      label: Ab > 0 ? `Breaking public API changes (${Ab})` : `Public API extended (${Aa} new export(s))`,
+      contribution: contribApi
+    });
+  }
+
+  if (M > 0) {
+    const first = coChanges[0];
+    const partner = first.level === "dir" ? `${first.to}/` : first.to;
+    drivers.push({
+      key: "Missing co-change",
+      label: `Usual co-change partner not touched: ${partner}${M > 1 ? ` (+${M - 1} more)` : ""}`,
+      contribution: contribCochange
+    });
+  }
+
+  if (P >= 2) {
+    drivers.push({ key: "Cross-package spread", label: `Changes spread across ${P} packages`, contribution: contribSpread });
+  }
+
+  if (O >= 2) {
+    drivers.push({
+      key: "Ownership spread",
+      label: `Changes cross ${O} code-owner groups${U > 0 ? ` (+${U} file(s) without an owner)` : ""}`,
+      contribution: contribOwners
+    });
+  }
+
+  // Custom rules rank by their configured rank; it only orders drivers, the score is unchanged.
+  for (const hit of ruleHits) drivers.push({ key: hit.key, label: hit.label, contribution: hit.rank });
+
   // Sort by contribution, unique by key
   const bestByKey = new Map<string, Driver>();
   for (const d of drivers) {
@@ -184,34 +453,146 @@ export function pickDrivers(counts: ClassifiedCounts, scores: Scores): Driver[]
     if (!existing || d.contribution > existing.contribution) bestByKey.set(d.key, d);
   }
 
-  return [...bestByKey.values()].sort((a, b) => b.contribution - a.contribution).slice(0, 3);
+  return [...bestByKey.values()].sort((a, b) => b.contribution - a.contribution);
+}
+
+// From the 🔴 tier on the PR is suggested to be split (see split.ts for the proposed groups).
+export function splitScore(thresholds: Thresholds): number {
+  return thresholds.moderate + 1;
 }
 
-export function suggestedActions(counts: ClassifiedCounts, score: number): string[] {
-  const { C, T, D, I, docsOnly } = counts;
+// Driver behind each built-in action; rule actions are ranked against them by contribution.
+const ACTION_DRIVERS: Record<string, BuiltinDriverKey> = {
+  "Add targeted tests": "Core changed without tests",
+  "Flag the breaking API change (changelog, major version)": "API surface changed",
+  "Review changelogs of new and major-bumped dependencies": "Dependency churn",
+  "Check whether the usual co-change partners need a matching update": "Missing co-change",
+  "Split this PR by package": "Cross-package spread",
+  "Request review from each code-owner group early": "Ownership spread",
+  "Split this PR": "Large change size"
+};
+
+// Built-in actions keep their order; each rule action goes before the first built-in action
+// whose driver contributes less than the rule's rank.
+function rankRuleActions(builtin: string[], drivers: Driver[], ruleHits: RuleHit[]): string[] {
+  const contribution = (action: string) => drivers.find((d) => d.key === ACTION_DRIVERS[action])?.contribution ?? 0;
+  const queue = ruleHits.filter((h) => h.action !== null).sort((a, b) => b.rank - a.rank);
+  const out: string[] = [];
+  for (const action of builtin) {
+    while (queue.length > 0 && queue[0].rank > contribution(action)) out.push(queue.shift()!.action!);
+    out.push(action);
+  }
+  out.push(...queue.map((h) => h.action!));
+  return [...new Set(out)];
+}
+
+export function suggestedActions(
+  counts: ClassifiedCounts,
+  score: number,
+  drivers: Driver[] = [],
+  ruleHits: RuleHit[] = [],
+  thresholds: Thresholds = DEFAULT_PROFILE.thresholds
+): string[] {
+  const { C, T, D, Dmajor, I, Ab, M, P, O, deletionHeavy, docsOnly } = counts;
   const actions: string[] = [];
 
-  if (docsOnly) return ["No action needed (docs-only change)"];
+  if (docsOnly) {
+    const ruled = rankRuleActions([], drivers, ruleHits);
+    return ruled.length > 0 ? ruled.slice(0, 2) : ["No action needed (docs-only change)"];
+  }
+
+  if (deletionHeavy) actions.push("Confirm removed code has no remaining callers");
+  else if (C > 0 && T === 0) actions.push("Add targeted tests");
+  if (Ab > 0) actions.push("Flag the breaking API change (changelog, major version)");
+  if (Dmajor > 0) actions.push("Review changelogs of new and major-bumped dependencies");
+  if (M > 0) actions.push("Check whether the usual co-change partners need a matching update");
+  if (O >= 3) actions.push("Request review from each code-owner group early");
+  if (score >= splitScore(thresholds)) actions.push(P >= 2 ? "Split this PR by package" : "Split this PR");
+  else if (score > thresholds.low && (D > 0 || I > 0)) actions.push("Add a focused review checklist");
+
+  const ranked = rankRuleActions(actions, drivers, ruleHits);
+  if (ranked.length === 0) ranked.push("Proceed with normal review");
 
-  if (C > 0 && T === 0) actions.push("Add targeted tests");
-  if (score >= 70) actions.push("Split this PR");
-  else if (score >= 40 && (D > 0 || I > 0)) actions.push("Add a focused review checklist");
+  return ranked.slice(0, 2);
+}
 
-  if (actions.length === 0) actions.push("Proceed with normal review");
+export function topCentralFiles(files: PRFile[], criticality: Criticality, n = 3): CentralFile[] {
+  const out: CentralFile[] = [];
+  for (const f of files) {
+    const fanIn = criticality.fanIn(f.filename);
+    if (fanIn !== null && fanIn > 0) out.push({ path: f.filename, fanIn });
+  }
+  return out.sort((a, b) => b.fanIn - a.fanIn).slice(0, n);
+}
 
-  return actions.slice(0, 2);
+// Plain-language notes on files that were scored differently, for the comment.
+export function scoringNotes(counts: ClassifiedCounts): string[] {
+  const { R, X, G, deletionHeavy } = counts;
+  const notes: string[] = [];
+  if (G > 0) notes.push(`${G} generated, vendored or binary file(s) excluded from scoring`);
+  if (R > 0) notes.push(`${R} pure rename(s) scored as moves`);
+  if (deletionHeavy) notes.push(`Mostly deletions${X > 0 ? ` (${X} file(s) removed)` : ""}: scored as a clean-up`);
+  return notes;
 }
 
-export function analyze(files: PRFile[], hotspotSet: Set<string>): AnalyzeResult {
-  const counts = classifyFiles(files, hotspotSet);
-  const scores = computeScores(counts);
-  const driversTop3 = pickDrivers(counts, scores);
-  const suggested = suggestedActions(counts, scores.score);
+export type AnalyzeOptions = {
+  classifier?: PathClassifier;
+  criticality?: Criticality | null;
+  api?: ApiDiff | null;
+  deps?: DepsDiff | null;
+  coChanges?: MissingCoChange[]; // from findMissingCoChanges against the baseline's coupling rules
+  packagesTouched?: number; // monorepo mode: workspace packages the PR changes
+  profile?: ScoringProfile;
+  rules?: RuleConfig[]; // custom drivers from the config file
+  codeowners?: Codeowners | null;
+};
+
+export function analyze(files: PRFile[], heat: HeatMap, opts: AnalyzeOptions = {}): AnalyzeResult {
+  const {
+    classifier = DEFAULT_CLASSIFIER,
+    criticality = null,
+    api = null,
+    deps = null,
+    coChanges = [],
+    packagesTouched = 0,
+    profile = DEFAULT_PROFILE,
+    rules = [],
+    codeowners = null
+  } = opts;
+  const counts = classifyFiles(files, heat, classifier, criticality);
+  const apiChanges = api?.changes ?? [];
+  counts.Ab = apiChanges.filter((c) => c.breaking).length;
+  counts.Aa = apiChanges.length - counts.Ab;
+  const depChanges = deps?.changes ?? [];
+  if (deps) {
+    counts.Dw = dependencyWeight(deps) + DEPS_FILE_WEIGHT * unparsedDepsFiles(files, deps, classifier);
+    counts.Dn = depChanges.length;
+    counts.Dmajor = depChanges.filter((c) => c.change === "major" || (c.change === "added" && c.scope === "runtime")).length;
+  }
+  counts.M = coChanges.length;
+  counts.P = packagesTouched;
+  const ownership = codeowners ? resolveOwnership(files, codeowners) : null;
+  if (ownership) {
+    counts.O = ownership.groups.length;
+    counts.U = ownership.unowned.length;
+  }
+  const scores = computeScores(counts, coChanges, profile);
+  const ruleHits = evaluateRules(files, rules);
+  const drivers = collectDrivers(counts, scores, coChanges, profile, ruleHits);
+  const suggested = suggestedActions(counts, scores.score, drivers, ruleHits, profile.thresholds);
 
   return {
     counts,
     scores,
-    driversTop3,
-    suggestedActions: suggested
+    driversTop3: drivers.slice(0, 3),
+    drivers,
+    centralFiles: criticality ? topCentralFiles(files, criticality) : [],
+    apiChanges,
+    missingCoChanges: coChanges,
+    depChanges,
+    suggestedActions: suggested,
+    ownership,
+    ruleHits,
+    model: scoringModel(profile)
   };
 }
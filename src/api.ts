@@ -0,0 +1,348 @@
+import * as path from "path";
+import { ensureRevision, FileReader, gitOutput, gitReader } from "./git";
+import { matchesAnyGlob } from "./utils";
+
+// Public API surface of TS/JS entry points, compared between two commits of the checkout.
+// Declarations are read with a light scanner (no compiler): good enough to tell removed,
+// renamed, re-typed and added exports apart, which is all the drift signal needs.
+
+export type ApiSymbolKind =
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "namespace"
+  | "variable"
+  | "default"
+  | "reexport";
+
+export type ApiSymbol = {
+  name: string;
+  kind: ApiSymbolKind;
+  signature: string;
+};
+
+export type ApiChangeKind = "removed" | "renamed" | "signature" | "type" | "added";
+
+export type ApiChange = {
+  entryPoint: string;
+  symbol: string;
+  change: ApiChangeKind;
+  breaking: boolean;
+  detail?: string;
+};
+
+export type ApiDiff = {
+  entryPoints: string[];
+  changes: ApiChange[];
+};
+
+export const DEFAULT_API_ENTRY_POINTS = ["index.{ts,tsx,mts,js,mjs}", "src/index.{ts,tsx,mts,js,mjs}"];
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".d.ts", ".js", ".jsx", ".mjs", ".cjs"];
+const MAX_REEXPORT_DEPTH = 5;
+
+// ---------- scanning ----------
+
+// Blanks out comments; string and template contents are kept (specifiers live in them).
+function stripComments(src: string): string {
+  return src.replace(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (m, str) =>
+    str !== undefined ? str : m.replace(/[^\n]/g, " ")
+  );
+}
+
+const OPEN = "([{";
+const CLOSE = ")]}";
+
+// Index of the first char matching `stop` at bracket depth 0, skipping strings.
+function scanTo(src: string, from: number, stop: (ch: string, i: number) => boolean): number {
+  let depth = 0;
+  for (let i = from; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const end = src.indexOf(ch, i + 1);
+      i = end < 0 ? src.length : end;
+      continue;
+    }
+    if (depth === 0 && stop(ch, i)) return i;
+    if (OPEN.includes(ch)) depth += 1;
+    else if (CLOSE.includes(ch)) depth = Math.max(0, depth - 1);
+  }
+  return src.length;
+}
+
+function matchingClose(src: string, openIdx: number): number {
+  const end = scanTo(src, openIdx + 1, (ch) => CLOSE.includes(ch));
+  return Math.min(src.length, end + 1);
+}
+
+function normalize(sig: string): string {
+  return sig
+    .replace(/\s+/g, " ")
+    .replace(/\s*([(){}[\]<>,;:=|&?])\s*/g, "$1")
+    .replace(/[;,]+(?=[}\])]|$)/g, "")
+    .trim();
+}
+
+// End of a `type X = ...` statement: `;` or a newline not continued by an operator.
+function typeStatementEnd(src: string, from: number): number {
+  return scanTo(src, from, (ch, i) => {
+    if (ch === ";") return true;
+    if (ch !== "\n") return false;
+    const next = src.slice(i + 1).match(/^\s*(\S)/);
+    return !next || !"|&=?:.<>,".includes(next[1]);
+  });
+}
+
+type RawExport =
+  | { type: "symbol"; symbol: ApiSymbol }
+  | { type: "star"; from: string; as?: string }
+  | { type: "named"; names: { local: string; exported: string }[]; from?: string };
+
+const DECL_RE =
+  /^(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\s*\*?|class|interface|type|const\s+enum|enum|namespace|module|const|let|var)\s+([\w$]+)/;
+
+export function scanExports(source: string): RawExport[] {
+  const src = stripComments(source);
+  const out: RawExport[] = [];
+  const re = /(?:^|\n)[ \t]*export\s+/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(src)) !== null) {
+    const at = m.index + m[0].length;
+    const rest = src.slice(at);
+
+    const star = /^\*\s*(?:as\s+([\w$]+)\s+)?from\s*["']([^"']+)["']/.exec(rest);
+    if (star) {
+      out.push({ type: "star", from: star[2], as: star[1] });
+      continue;
+    }
+
+    const named = /^(?:type\s+)?\{([^}]*)\}\s*(?:from\s*["']([^"']+)["'])?/.exec(rest);
+    if (named) {
+      const names = named[1]
+        .split(",")
+        .map((part) => part.trim().replace(/^type\s+/, ""))
+        .filter(Boolean)
+        .map((part) => {
+          const [local, exported] = part.split(/\s+as\s+/);
+          return { local: local.trim(), exported: (exported ?? local).trim() };
+        });
+      out.push({ type: "named", names, from: named[2] });
+      continue;
+    }
+
+    if (/^default\b/.test(rest)) {
+      const end = scanTo(rest, 0, (ch) => ch === "{" || ch === ";" || ch === "\n");
+      out.push({ type: "symbol", symbol: { name: "default", kind: "default", signature: normalize(rest.slice(7, end)) } });
+      continue;
+    }
+
+    const decl = DECL_RE.exec(rest);
+    if (!decl) continue;
+    const keyword = decl[1].replace(/\s+/g, " ").replace(" *", "*");
+    const name = decl[2];
+    const afterName = decl[0].length;
+    let kind: ApiSymbolKind;
+    let signature: string;
+
+    if (keyword.startsWith("function")) {
+      kind = "function";
+      // params + return type; the body (or `;` for overloads) ends the signature
+      const paren = rest.indexOf("(", afterName);
+      const paramsEnd = paren < 0 ? afterName : matchingClose(rest, paren);
+      const end = scanTo(rest, paramsEnd, (ch) => ch === "{" || ch === ";" || ch === "\n");
+      signature = rest.slice(afterName, end);
+    } else if (keyword === "class") {
+      kind = "class";
+      signature = rest.slice(afterName, scanTo(rest, afterName, (ch) => ch === "{"));
+    } else if (keyword === "interface" || keyword.endsWith("enum") || keyword === "namespace" || keyword === "module") {
+      kind = keyword === "interface" ? "interface" : keyword.endsWith("enum") ? "enum" : "namespace";
+      const open = scanTo(rest, afterName, (ch) => ch === "{");
+      signature = rest.slice(afterName, matchingClose(rest, open));
+    } else if (keyword === "type") {
+      kind = "type";
+      signature = rest.slice(afterName, typeStatementEnd(rest, afterName));
+    } else {
+      kind = "variable";
+      const eq = scanTo(rest, afterName, (ch, i) => (ch === "=" && rest[i + 1] !== ">") || ch === ";" || ch === "\n");
+      signature = rest.slice(afterName, eq);
+      if (rest[eq] === "=") {
+        // Untyped function values: the parameter list is the signature.
+        const init = rest.slice(eq + 1);
+        const fn = /^\s*(?:async\s+)?(?:function\b[^(]*)?\(/.exec(init);
+        if (!signature.includes(":") && fn) {
+          const paren = eq + 1 + fn[0].length - 1;
+          signature += `=${rest.slice(paren, matchingClose(rest, paren))}`;
+        } else if (!signature.includes(":")) {
+          signature += "=value";
+        }
+      }
+    }
+
+    out.push({ type: "symbol", symbol: { name, kind, signature: normalize(signature) } });
+  }
+
+  return out;
+}
+
+// ---------- module resolution at a revision ----------
+
+function resolveModule(read: FileReader, fromFile: string, spec: string): string | null {
+  if (!spec.startsWith(".")) return null; // package re-exports are outside this repo's surface
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), spec));
+  const stem = base.replace(/\.(m|c)?jsx?$/, "");
+  const candidates = [base, ...SOURCE_EXTENSIONS.map((e) => stem + e), ...SOURCE_EXTENSIONS.map((e) => `${base}/index${e}`)];
+  for (const c of candidates) if (read(c) !== null) return c;
+  return null;
+}
+
+export function collectModuleSymbols(read: FileReader, file: string, depth = 0, seen = new Set<string>()): Map<string, ApiSymbol> {
+  const symbols = new Map<string, ApiSymbol>();
+  const source = read(file);
+  if (source === null || seen.has(file) || depth > MAX_REEXPORT_DEPTH) return symbols;
+  seen.add(file);
+
+  const local = new Map<string, ApiSymbol>();
+  const raws = scanExports(source);
+
+  for (const raw of raws) {
+    if (raw.type !== "symbol") continue;
+    const prev = local.get(raw.symbol.name);
+    // Overloads and declaration merging: keep every signature
+    local.set(raw.symbol.name, prev ? { ...prev, signature: `${prev.signature}|${raw.symbol.signature}` } : raw.symbol);
+  }
+  for (const [name, sym] of local) symbols.set(name, sym);
+
+  for (const raw of raws) {
+    if (raw.type === "star") {
+      const target = resolveModule(read, file, raw.from);
+      if (raw.as) {
+        symbols.set(raw.as, { name: raw.as, kind: "namespace", signature: `*from ${raw.from}` });
+      } else if (target) {
+        for (const [name, sym] of collectModuleSymbols(read, target, depth + 1, new Set(seen))) {
+          if (name !== "default" && !symbols.has(name)) symbols.set(name, sym);
+        }
+      }
+    } else if (raw.type === "named") {
+      const target = raw.from ? resolveModule(read, file, raw.from) : null;
+      const targetSymbols = target ? collectModuleSymbols(read, target, depth + 1, new Set(seen)) : local;
+      for (const { local: l, exported } of raw.names) {
+        const sym = targetSymbols.get(l);
+        symbols.set(exported, sym ? { ...sym, name: exported } : { name: exported, kind: "reexport", signature: "" });
+      }
+    }
+  }
+
+  return symbols;
+}
+
+// ---------- diff ----------
+
+export function diffSymbols(entryPoint: string, base: Map<string, ApiSymbol>, head: Map<string, ApiSymbol>): ApiChange[] {
+  const changes: ApiChange[] = [];
+  const removed = [...base.values()].filter((s) => !head.has(s.name));
+  const added = [...head.values()].filter((s) => !base.has(s.name));
+
+  // A removal paired with an addition of identical shape is a rename (still breaking).
+  for (const r of removed) {
+    const twin = added.findIndex((a) => a.kind === r.kind && a.signature === r.signature && a.signature !== "");
+    if (twin >= 0) {
+      const [a] = added.splice(twin, 1);
+      changes.push({ entryPoint, symbol: r.name, change: "renamed", breaking: true, detail: `now ${a.name}` });
+    } else {
+      changes.push({ entryPoint, symbol: r.name, change: "removed", breaking: true });
+    }
+  }
+
+  for (const [name, h] of head) {
+    const b = base.get(name);
+    if (!b || b.signature === h.signature || h.kind === "reexport" || b.kind === "reexport") continue;
+    const change: ApiChangeKind = h.kind === "function" && b.kind === "function" ? "signature" : "type";
+    changes.push({ entryPoint, symbol: name, change, breaking: true });
+  }
+
+  for (const a of added) changes.push({ entryPoint, symbol: a.name, change: "added", breaking: false });
+
+  return changes;
+}
+
+// ---------- entry points ----------
+
+function collectPackageEntryPoints(pkg: any, pkgDir: string, out: Set<string>): void {
+  const values: string[] = [];
+  const walk = (v: unknown) => {
+    if (typeof v === "string") values.push(v);
+    else if (v && typeof v === "object") Object.values(v).forEach(walk);
+  };
+  walk([pkg?.types, pkg?.typings, pkg?.main, pkg?.module, pkg?.exports]);
+
+  for (const v of values) {
+    if (v.includes("*")) continue;
+    const rel = path.posix.normalize(path.posix.join(pkgDir, v));
+    out.add(rel);
+    // Built outputs map back to sources by convention: dist/x.js -> src/x.ts
+    const src = rel.replace(/^(.*?)(?:^|\/)(?:dist|lib|build|out)\//, (_m, pre) => `${pre ? `${pre}/` : ""}src/`);
+    out.add(src.replace(/\.d\.ts$|\.(m|c)?js$/, ".ts"));
+  }
+}
+
+export function findEntryPoints(root: string, rev: string, globs: string[] | null): string[] {
+  const listing = gitOutput(root, ["ls-tree", "-r", "--name-only", rev]);
+  if (listing === null) return [];
+  const files = new Set(listing.split("\n").filter(Boolean));
+
+  if (globs) return [...files].filter((f) => matchesAnyGlob(f, globs)).sort();
+
+  const out = new Set<string>([...files].filter((f) => matchesAnyGlob(f, DEFAULT_API_ENTRY_POINTS)));
+  const read = gitReader(root, rev);
+  for (const f of files) {
+    if (f !== "package.json" && !/^packages\/[^/]+\/package\.json$/.test(f)) continue;
+    try {
+      collectPackageEntryPoints(JSON.parse(read(f) ?? "null"), path.posix.dirname(f), out);
+    } catch {
+      // unparseable package.json: no entry points from it
+    }
+  }
+  return [...out].filter((f) => files.has(f) && /\.(m|c)?[jt]sx?$/.test(f)).sort();
+}
+
+export function computeApiDiff(
+  root: string,
+  baseRev: string,
+  headRev: string,
+  changedFiles: string[],
+  entryPointGlobs: string[] | null
+): ApiDiff | null {
+  // Entry points re-export other modules, so any TS/JS change can move the surface.
+  if (!changedFiles.some((f) => /\.(m|c)?[jt]sx?$/.test(f))) return { entryPoints: [], changes: [] };
+  if (!ensureRevision(root, baseRev)) return null;
+
+  const entryPoints = findEntryPoints(root, headRev, entryPointGlobs);
+  const readBase = gitReader(root, baseRev);
+  const readHead = gitReader(root, headRev);
+
+  const changes: ApiChange[] = [];
+  for (const ep of entryPoints) {
+    // An entry point that did not exist at base is new surface, not drift of an existing one.
+    if (readBase(ep) === null) continue;
+    changes.push(...diffSymbols(ep, collectModuleSymbols(readBase, ep), collectModuleSymbols(readHead, ep)));
+  }
+  return { entryPoints, changes };
+}
+
+export function describeApiChange(c: ApiChange): string {
+  switch (c.change) {
+    case "removed":
+      return `${c.symbol} removed`;
+    case "renamed":
+      return `${c.symbol} renamed (${c.detail})`;
+    case "signature":
+      return `${c.symbol}() signature changed`;
+    case "type":
+      return `${c.symbol} type changed`;
+    default:
+      return `${c.symbol} added`;
+  }
+}
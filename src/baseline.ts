@@ -1,19 +1,89 @@
 import * as core from "@actions/core";
 import * as cache from "@actions/cache";
+import { createHash } from "crypto";
 import { Octokit } from "octokit";
-import { listMergedPulls, listPullFiles } from "./github";
-import { analyze } from "./analyze";
+import { exportEtags, importEtags, listMergedPulls, listPullFiles, RateLimitBudgetError } from "./github";
+import { analyze, AnalyzeResult, EMPTY_HEAT, HeatMap, isExcludedFile, isPureRename, PRFile } from "./analyze";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { Criticality } from "./graph";
+import { DEFAULT_PROFILE, ScoringModel, scoringModel, ScoringProfile } from "./profile";
+import { CouplingRule, mineCoupling } from "./coupling";
+import { Codeowners } from "./owners";
+import { countTouchedPackages, WorkspacePackage } from "./workspaces";
 import { median } from "./utils";
 
 export type BaselineData = {
+  schemaVersion: number;
   computedAt: string;
   historyN: number;
   baselineMedianScore: number | null;
-  hotspotFiles: string[]; // exact paths
+  heat: HeatMap; // recency-weighted change frequency per file and directory
+  coupling: CouplingRule[]; // files/directories that usually change together
+  prs: BaselinePR[]; // newest merge first
+  missingPRs?: number; // PRs in the window skipped for rate-limit budget or API errors (partial baseline)
+  model?: ScoringModel; // scoring profile the PR scores and median come from (absent = default v1)
+  signals?: string; // pathSignalsKey of the CODEOWNERS rules and packages the scores used
 };
 
+// Score inputs that come from file paths alone. Past PRs are scored with the same ones as
+// the current PR, so ownership and package spread are part of the median they are compared to.
+export type PathSignals = {
+  codeowners: Codeowners | null;
+  packages: WorkspacePackage[];
+};
+
+export const NO_PATH_SIGNALS: PathSignals = { codeowners: null, packages: [] };
+
+export type BaselinePR = {
+  number: number;
+  mergedAt: string;
+  score: number;
+  files: PRFile[];
+};
+
+// Bump when BaselineData changes shape: older entries are then ignored and recomputed.
+export const BASELINE_SCHEMA_VERSION = 6;
+
+export const HEAT_HALF_LIFE_DAYS = 30;
+// Keeps the cached baseline small; cooler paths fall back to their directory's heat.
+const MAX_HEAT_FILES = 2000;
+const MAX_HEAT_DIRS = 500;
+const MIN_STORED_HEAT = 0.05;
+
 const CACHE_PATH = ".drift-radar-cache";
 const CACHE_FILE = `${CACHE_PATH}/baseline.json`;
+// ETags and bodies of the GitHub GETs, kept with the baseline for conditional requests.
+const ETAGS_FILE = `${CACHE_PATH}/etags.json`;
+
+// Cache entries are immutable, so every save gets a fresh timestamped key and
+// restore matches on the prefix (the cache service returns the newest match).
+function cacheKeyPrefix(defaultBranch: string): string {
+  return `drift-radar-baseline-v${BASELINE_SCHEMA_VERSION}-${defaultBranch}-`;
+}
+
+export function emptyBaseline(historyN: number): BaselineData {
+  return {
+    schemaVersion: BASELINE_SCHEMA_VERSION,
+    computedAt: new Date().toISOString(),
+    historyN,
+    baselineMedianScore: null,
+    heat: EMPTY_HEAT,
+    coupling: [],
+    prs: []
+  };
+}
+
+export function baselineAgeDays(data: BaselineData, now: Date = new Date()): number {
+  const t = Date.parse(data.computedAt);
+  if (Number.isNaN(t)) return Infinity;
+  return Math.max(0, (now.getTime() - t) / 86_400_000);
+}
+
+export function formatBaselineAge(days: number): string {
+  if (!Number.isFinite(days)) return "unknown";
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${Math.round(days * 10) / 10}d`;
+}
 
 function safeJsonParse(s: string): any | null {
   try {
@@ -23,15 +93,27 @@ function safeJsonParse(s: string): any | null {
   }
 }
 
-export async function loadBaselineFromCache(defaultBranch: string): Promise<BaselineData | null> {
+// With an Octokit, the ETags saved with the entry are handed to its request layer.
+export async function loadBaselineFromCache(defaultBranch: string, octokit?: Octokit): Promise<BaselineData | null> {
   try {
-    const key = `drift-radar-baseline-${defaultBranch}`;
-    await cache.restoreCache([CACHE_PATH], key);
+    const prefix = cacheKeyPrefix(defaultBranch);
     const fs = await import("fs");
-    if (!fs.existsSync(CACHE_FILE)) return null;
+    fs.rmSync(CACHE_FILE, { force: true });
+    fs.rmSync(ETAGS_FILE, { force: true });
+    const hitKey = await cache.restoreCache([CACHE_PATH], prefix, [prefix]);
+    if (!hitKey || !fs.existsSync(CACHE_FILE)) return null;
+    if (octokit && fs.existsSync(ETAGS_FILE)) {
+      const etags = safeJsonParse(fs.readFileSync(ETAGS_FILE, "utf8"));
+      if (Array.isArray(etags)) importEtags(octokit, etags);
+    }
     const raw = fs.readFileSync(CACHE_FILE, "utf8");
     const parsed = safeJsonParse(raw);
     if (!parsed) return null;
+    if (parsed.schemaVersion !== BASELINE_SCHEMA_VERSION) {
+      core.info(`Ignoring cached baseline ${hitKey}: schema v${parsed.schemaVersion ?? 1}, expected v${BASELINE_SCHEMA_VERSION}.`);
+      return null;
+    }
+    core.info(`Restored baseline from cache key ${hitKey}.`);
     return parsed as BaselineData;
   } catch (e: any) {
     core.info(`Baseline cache restore failed (non-fatal): ${e?.message ?? String(e)}`);
@@ -39,18 +121,21 @@ export async function loadBaselineFromCache(defaultBranch: string): Promise<Base
   }
 }
 
-export async function saveBaselineToCache(defaultBranch: string, data: BaselineData): Promise<void> {
+export async function saveBaselineToCache(defaultBranch: string, data: BaselineData, octokit?: Octokit): Promise<void> {
   const fs = await import("fs");
-  const path = await import("path");
   fs.mkdirSync(CACHE_PATH, { recursive: true });
   fs.writeFileSync(CACHE_FILE, JSON.stringify(data), "utf8");
+  if (octokit) fs.writeFileSync(ETAGS_FILE, JSON.stringify(exportEtags(octokit)), "utf8");
+  else fs.rmSync(ETAGS_FILE, { force: true });
 
-  const key = `drift-radar-baseline-${defaultBranch}`;
+  // Save time, not computedAt: a rescored baseline keeps its computedAt but needs a new key.
+  const stamp = new Date().toISOString().replace(/[^0-9]/g, "");
+  const key = `${cacheKeyPrefix(defaultBranch)}${stamp}`;
   try {
     await cache.saveCache([CACHE_PATH], key);
+    core.info(`Baseline saved to cache key ${key}.`);
   } catch (e: any) {
-    // cache save might fail (already exists), that's fine.
-    core.info(`Baseline cache save failed (non-fatal): ${e?.message ?? String(e)}`);
+    core.warning(`Baseline cache save failed for ${key}: ${e?.message ?? String(e)}`);
   }
 }
 
@@ -58,51 +143,165 @@ export async function computeBaseline(
   octokit: Octokit,
   owner: string,
   repo: string,
-  historyN: number
+  historyN: number,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  previous: BaselineData | null = null,
+  criticality: Criticality | null = null,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
 ): Promise<BaselineData> {
   const merged = await listMergedPulls(octokit, owner, repo, historyN);
 
-  if (merged.length === 0) {
-    return {
-      computedAt: new Date().toISOString(),
-      historyN,
-      baselineMedianScore: null,
-      hotspotFiles: []
-    };
-  }
+  if (merged.length === 0) return { ...emptyBaseline(historyN), model: scoringModel(profile), signals: pathSignalsKey(signals) };
 
-  // Hotspots: count file frequencies across merged PRs
-  const freq = new Map<string, number>();
-  const scores: number[] = [];
+  // Incremental refresh: only PRs not already recorded need their files fetched.
+  // Records outside the current window (older merges, or a smaller historyN) are evicted.
+  const known = new Map<number, BaselinePR>((previous?.prs ?? []).map((r) => [r.number, r]));
+  const records: BaselinePR[] = [];
+  let fetched = 0;
+  let missing = 0;
 
   // Rate-limit friendly: hard cap how many PRs we fully expand if needed
   const toProcess = merged.slice(0, historyN);
 
-  for (const prNumber of toProcess) {
-    const files = await listPullFiles(octokit, owner, repo, prNumber);
-    for (const f of files) {
-      freq.set(f.filename, (freq.get(f.filename) ?? 0) + 1);
+  // Fetches run in parallel; ghRequest bounds how many are in flight at once.
+  const results = await Promise.allSettled(
+    toProcess.map(async (pr) => {
+      const existing = known.get(pr.number);
+      if (existing) return { pr, files: existing.files, reused: true };
+      return { pr, files: await listPullFiles(octokit, owner, repo, pr.number, "low"), reused: false };
+    })
+  );
+
+  for (const [i, r] of results.entries()) {
+    if (r.status === "rejected") {
+      // Budget exhaustion or a failed fetch degrades to a partial baseline; the next run retries.
+      if (!(r.reason instanceof RateLimitBudgetError)) {
+        core.info(`Unable to read files of PR #${toProcess[i].number} (skipped). ${r.reason?.message ?? String(r.reason)}`);
+      }
+      missing += 1;
+      continue;
     }
+    const { pr, files, reused } = r.value;
+    if (!reused) fetched += 1;
+    records.push({ number: pr.number, mergedAt: pr.mergedAt, score: 0, files });
+  }
+
+  const reusedCount = records.length - fetched;
+  core.info(`Baseline: ${reusedCount} PRs reused, ${fetched} fetched, ${known.size - reusedCount} evicted.`);
+  if (missing > 0) {
+    core.warning(`Baseline is partial: ${missing} of ${toProcess.length} merged PRs skipped (API rate limit or errors).`);
+  }
+
+  const data = summarizeBaseline(records, historyN, classifier, criticality, profile, signals);
+  if (missing > 0) data.missingPRs = missing;
+  return data;
+}
+
+function topEntries(m: Map<string, number>, n: number): Record<string, number> {
+  const entries = [...m.entries()].filter(([, v]) => v >= MIN_STORED_HEAT).sort((a, b) => b[1] - a[1]);
+  return Object.fromEntries(entries.slice(0, n).map(([k, v]) => [k, Math.round(v * 1000) / 1000]));
+}
 
-    // Baseline score for this PR (trend baseline uses the same scoring model)
-    // Hotspots for historical PR scoring: we don't want circular dependency.
-    // Use empty hotspot set when scoring history.
-    const res = analyze(files, new Set());
-    scores.push(res.scores.score);
+// Each PR adds 0.5^(age / half-life) to the files it changed; a directory's heat is the
+// mean heat of the files changed below it, so one busy file does not heat up all of src/.
+export function computeHeat(
+  prs: BaselinePR[],
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  now: Date = new Date(),
+  halfLifeDays: number = HEAT_HALF_LIFE_DAYS
+): HeatMap {
+  const files = new Map<string, number>();
+  for (const pr of prs) {
+    const ageDays = Math.max(0, (now.getTime() - Date.parse(pr.mergedAt)) / 86_400_000);
+    const w = Number.isFinite(ageDays) ? Math.pow(0.5, ageDays / halfLifeDays) : 0;
+    for (const f of pr.files) {
+      if (isPureRename(f) || isExcludedFile(f, classifier)) continue;
+      files.set(f.filename, (files.get(f.filename) ?? 0) + w);
+    }
   }
 
-  // Determine hotspots: threshold >= 3 occurrences OR top 10, whichever yields more signal.
-  const entries = [...freq.entries()].sort((a, b) => b[1] - a[1]);
-  const top10 = entries.slice(0, 10).map(([p]) => p);
-  const threshold = entries.filter(([, c]) => c >= 3).map(([p]) => p);
-  const hotspotSet = new Set<string>([...top10, ...threshold]);
+  const dirSums = new Map<string, { sum: number; n: number }>();
+  for (const [p, h] of files) {
+    for (let d = p.lastIndexOf("/"); d > 0; d = p.lastIndexOf("/", d - 1)) {
+      const acc = dirSums.get(p.slice(0, d)) ?? { sum: 0, n: 0 };
+      acc.sum += h;
+      acc.n += 1;
+      dirSums.set(p.slice(0, d), acc);
+    }
+  }
+  const dirs = new Map([...dirSums].map(([d, acc]) => [d, acc.sum / acc.n]));
 
-  const baselineMedianScore = median(scores);
+  return { halfLifeDays, files: topEntries(files, MAX_HEAT_FILES), dirs: topEntries(dirs, MAX_HEAT_DIRS) };
+}
+
+// Identifies the path signals a baseline was scored with; a different key means rescoring.
+export function pathSignalsKey(signals: PathSignals): string {
+  const owners = signals.codeowners ? signals.codeowners.rules.map((r) => [r.pattern, ...r.owners]) : null;
+  const text = JSON.stringify({ owners, packages: signals.packages.map((p) => p.dir) });
+  return createHash("sha256").update(text).digest("hex").slice(0, 12);
+}
+
+// Scores a merged PR the way the current one is scored, minus hotspot heat (which comes from
+// these same PRs). The current import graph stands in for historical ones.
+export function scorePastPR(
+  files: PRFile[],
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
+): AnalyzeResult {
+  const opts = { classifier, criticality, profile, codeowners: signals.codeowners };
+  return analyze(files, EMPTY_HEAT, { ...opts, packagesTouched: countTouchedPackages(files, signals.packages, opts) });
+}
+
+// Rebuilds median, heat and co-change coupling from the per-PR records. Scores are recomputed
+// (cheap, local) so a config change is reflected without refetching files.
+export function summarizeBaseline(
+  records: BaselinePR[],
+  historyN: number,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
+): BaselineData {
+  const prs = [...records].sort((a, b) => Date.parse(b.mergedAt) - Date.parse(a.mergedAt)).slice(0, historyN);
+  const scores: number[] = [];
+
+  for (const pr of prs) {
+    pr.score = scorePastPR(pr.files, classifier, criticality, profile, signals).scores.score;
+    scores.push(pr.score);
+  }
 
   return {
+    schemaVersion: BASELINE_SCHEMA_VERSION,
     computedAt: new Date().toISOString(),
     historyN,
-    baselineMedianScore,
-    hotspotFiles: [...hotspotSet]
+    baselineMedianScore: median(scores),
+    heat: computeHeat(prs, classifier),
+    coupling: mineCoupling(prs, classifier),
+    prs,
+    model: scoringModel(profile),
+    signals: pathSignalsKey(signals)
   };
 }
+
+export function baselineModel(data: BaselineData): ScoringModel {
+  return data.model ?? { id: "default", version: 1 };
+}
+
+// A baseline scored under another profile or other path signals is rescored from its recorded
+// files (no API calls), so the trend never compares scores from different models.
+export function rescoreBaseline(
+  data: BaselineData,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
+): BaselineData {
+  const rescored = summarizeBaseline(data.prs, data.historyN, classifier, criticality, profile, signals);
+  if (data.missingPRs) rescored.missingPRs = data.missingPRs;
+  // Same PRs, so the same age: rescoring must not reset the max-age expiry.
+  rescored.computedAt = data.computedAt;
+  return rescored;
+}
@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+import { execFileSync } from "child_process";
+import { analyze, AnalyzeResult, EMPTY_HEAT, FileStatus, PRFile, scoringNotes, splitScore } from "./analyze";
+import { buildClassifier, DEFAULT_CONFIG_PATH, loadConfig } from "./config";
+import { buildProfile } from "./profile";
+import { loadCriticality } from "./graph";
+import { loadCodeowners } from "./owners";
+import { gitReader } from "./git";
+import { computeApiDiff, describeApiChange } from "./api";
+import { computeDepsDiff, DepsDiff, describeDepsDiff } from "./deps";
+import { analyzePackages, countTouchedPackages, PackageAnalysis, resolvePackages } from "./workspaces";
+import { describeWhatIf, projectWhatIfs, SplitGroup, suggestSplit, WhatIf } from "./split";
+
+type CliOptions = {
+  base: string | null;
+  head: string;
+  format: "text" | "json";
+  configPath: string;
+  failAbove: number | null;
+};
+
+const USAGE = `Usage: drift-radar [options]
+
+Scores the local diff <base>...<head> with the Drift Radar model (no GitHub access needed).
+
+Options:
+  --base <ref>        Base ref (default: origin/HEAD, then main)
+  --head <ref>        Head ref (default: HEAD)
+  --format <fmt>      Output format: text | json (default: text)
+  --config <path>     Config file, relative to the repo root (default: ${DEFAULT_CONFIG_PATH})
+  --fail-above <n>    Exit with code 1 when the score is above n (for pre-push hooks)
+  -h, --help          Show this help`;
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { base: null, head: "HEAD", format: "text", configPath: DEFAULT_CONFIG_PATH, failAbove: null };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inline] = arg.startsWith("--") && arg.includes("=") ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    const value = () => {
+      const v = inline ?? argv[++i];
+      if (v === undefined || v === "") throw new Error(`Missing value for ${flag}.`);
+      return v;
+    };
+
+    switch (flag) {
+      case "--base":
+        opts.base = value();
+        break;
+      case "--head":
+        opts.head = value();
+        break;
+      case "--format": {
+        const f = value();
+        if (f !== "text" && f !== "json") throw new Error(`Unknown format '${f}' (expected text or json).`);
+        opts.format = f;
+        break;
+      }
+      case "--config":
+        opts.configPath = value();
+        break;
+      case "--fail-above": {
+        const n = Number(value());
+        if (!Number.isFinite(n)) throw new Error("--fail-above expects a number.");
+        opts.failAbove = n;
+        break;
+      }
+      case "-h":
+      case "--help":
+        console.log(USAGE);
+        process.exit(0);
+      default:
+        throw new Error(`Unknown argument '${arg}'.`);
+    }
+  }
+
+  return opts;
+}
+
+function git(args: string[], cwd?: string): string {
+  return execFileSync("git", args, { cwd, encoding: "utf8", maxBuffer: 64 * 1024 * 1024, stdio: ["ignore", "pipe", "pipe"] });
+}
+
+function resolveDefaultBase(cwd: string): string {
+  try {
+    return git(["symbolic-ref", "--short", "refs/remotes/origin/HEAD"], cwd).trim();
+  } catch {
+    return "main";
+  }
+}
+
+const STATUS_CODES: Record<string, FileStatus> = {
+  A: "added",
+  D: "removed",
+  M: "modified",
+  R: "renamed",
+  C: "copied",
+  T: "changed"
+};
+
+// `git diff --name-status -z -M`: "<code>\0<path>\0", renames/copies "<code><score>\0<old>\0<new>\0".
+export function parseNameStatus(out: string): Map<string, FileStatus> {
+  const statuses = new Map<string, FileStatus>();
+  const tokens = out.split("\0");
+  for (let i = 0; i < tokens.length; ) {
+    const code = tokens[i++].trim().charAt(0);
+    if (!code) continue;
+    if (code === "R" || code === "C") i += 1; // old path
+    const filename = tokens[i++];
+    if (filename) statuses.set(filename, STATUS_CODES[code] ?? "modified");
+  }
+  return statuses;
+}
+
+// `git diff --numstat -z -M`: "<adds>\t<dels>\t<path>\0", renames "<adds>\t<dels>\t\0<old>\0<new>\0".
+// `-z` keeps paths verbatim (no quoting); binary files report "-" for both counts.
+export function parseNumstat(out: string, statuses: Map<string, FileStatus> = new Map()): PRFile[] {
+  const files: PRFile[] = [];
+  const tokens = out.split("\0");
+  for (let i = 0; i < tokens.length; ) {
+    const record = tokens[i++].replace(/^\n/, "");
+    if (!record.trim()) continue;
+    const [adds, dels, ...rest] = record.split("\t");
+    let filename = rest.join("\t");
+    let previousFilename: string | undefined;
+    if (!filename) {
+      previousFilename = tokens[i++];
+      filename = tokens[i++];
+    }
+    if (!filename) continue;
+
+    const binary = adds === "-" && dels === "-";
+    files.push({
+      filename,
+      additions: binary ? 0 : Number(adds) || 0,
+      deletions: binary ? 0 : Number(dels) || 0,
+      status: statuses.get(filename) ?? (previousFilename ? "renamed" : "modified"),
+      previousFilename,
+      binary
+    });
+  }
+  return files;
+}
+
+export function listLocalDiffFiles(base: string, head: string, cwd?: string): PRFile[] {
+  const range = `${base}...${head}`;
+  const statuses = parseNameStatus(git(["diff", "--name-status", "-z", "-M", range], cwd));
+  return parseNumstat(git(["diff", "--numstat", "-z", "-M", range], cwd), statuses);
+}
+
+function formatText(
+  res: AnalyzeResult,
+  deps: DepsDiff | null,
+  packages: PackageAnalysis[],
+  split: SplitGroup[],
+  whatIfs: WhatIf[],
+  base: string,
+  head: string
+): string {
+  const { score, verdictEmoji, reviewMinutes } = res.scores;
+  const { F, L } = res.counts;
+  const notes = scoringNotes(res.counts);
+  const depsNote = deps ? describeDepsDiff(deps) : null;
+  if (depsNote) notes.unshift(`Dependencies: ${depsNote}`);
+  if (res.apiChanges.length > 0) {
+    notes.unshift(`API surface: ${res.apiChanges.map(describeApiChange).join(", ")}`);
+  }
+  if (res.centralFiles.length > 0) {
+    notes.unshift(`Most central files touched: ${res.centralFiles.map((c) => `${c.path} (imported by ${c.fanIn})`).join(", ")}`);
+  }
+  return [
+    `Drift Radar — ${base}...${head}`,
+    "",
+    `Score: ${score}/100 ${verdictEmoji}   Review Load: ~${reviewMinutes} min   Files: ${F}   Lines: ${L}`,
+    "",
+    "Main risk drivers:",
+    ...(res.driversTop3.length ? res.driversTop3.map((d) => `• ${d.label}`) : ["• none"]),
+    "",
+    "Suggested actions:",
+    ...res.suggestedActions.map((a) => `• ${a}`),
+    ...whatIfs.map((w) => `  ↳ ${describeWhatIf(w)}`),
+    ...(split.length
+      ? [
+          "",
+          "Suggested split:",
+          ...split.map((g, i) => `${i + 1}. ${g.title}: ${g.result.scores.score}/100 ${g.result.scores.verdictEmoji} (${g.files.length} file(s))`)
+        ]
+      : []),
+    ...(packages.length
+      ? [
+          "",
+          "Packages:",
+          ...packages.map((p) => `• ${p.name}: ${p.result.scores.score}/100 ${p.result.scores.verdictEmoji} (${p.files} file(s))`)
+        ]
+      : []),
+    ...(res.ownership && (res.ownership.groups.length || res.ownership.unowned.length)
+      ? [
+          "",
+          `Reviewers by ownership (${res.ownership.source}):`,
+          ...res.ownership.groups.map((g) => `• ${g.owners.join(" ")}: ${g.files.length} file(s)`),
+          ...(res.ownership.unowned.length ? [`• no owner: ${res.ownership.unowned.join(", ")}`] : [])
+        ]
+      : []),
+    ...(notes.length ? ["", "Notes:", ...notes.map((n) => `• ${n}`)] : []),
+    "",
+    `Scoring model: ${res.model.id} v${res.model.version}`
+  ].join("\n");
+}
+
+function main(argv: string[]): number {
+  const opts = parseArgs(argv);
+
+  const root = git(["rev-parse", "--show-toplevel"]).trim();
+  const base = opts.base ?? resolveDefaultBase(root);
+  const config = loadConfig(opts.configPath, root);
+  const classifier = buildClassifier(config.classification);
+  const profile = buildProfile(config.scoring);
+
+  const files = listLocalDiffFiles(base, opts.head, root);
+  const mergeBase = git(["merge-base", base, opts.head], root).trim();
+  const api = config.api.enabled
+    ? computeApiDiff(root, mergeBase, opts.head, files.map((f) => f.filename), config.api.entryPoints)
+    : null;
+  const deps = computeDepsDiff(root, mergeBase, opts.head, files, classifier);
+  const packages = resolvePackages(root, config.monorepo);
+  const analyzeOptions = {
+    classifier,
+    criticality: loadCriticality(root, classifier),
+    api,
+    deps,
+    profile,
+    rules: config.rules,
+    codeowners: loadCodeowners(gitReader(root, mergeBase))
+  };
+  const res = analyze(files, EMPTY_HEAT, { ...analyzeOptions, packagesTouched: countTouchedPackages(files, packages, analyzeOptions) });
+  const perPackage = packages.length > 0 ? analyzePackages(files, packages, EMPTY_HEAT, analyzeOptions) : [];
+  const split = res.scores.score >= splitScore(profile.thresholds) ? suggestSplit(files, EMPTY_HEAT, analyzeOptions, { packages }) : [];
+  const whatIfs = projectWhatIfs(files, res, EMPTY_HEAT, analyzeOptions, { packages });
+
+  if (opts.format === "json") {
+    const parts = split.map((g) => ({ title: g.title, files: g.files, score: g.result.scores.score, drivers: g.result.driversTop3 }));
+    console.log(JSON.stringify({ base, head: opts.head, files: files.length, ...res, packages: perPackage, split: parts, whatIfs }, null, 2));
+  } else {
+    console.log(formatText(res, deps, perPackage, split, whatIfs, base, opts.head));
+  }
+
+  if (opts.failAbove !== null && res.scores.score > opts.failAbove) {
+    if (opts.format === "text") console.error(`\nScore ${res.scores.score} is above --fail-above ${opts.failAbove}.`);
+    return 1;
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  try {
+    process.exitCode = main(process.argv.slice(2));
+  } catch (e: any) {
+    const stderr = e?.stderr ? String(e.stderr).trim() : "";
+    console.error(`drift-radar: ${stderr || (e?.message ? String(e.message) : "failed.")}`);
+    process.exitCode = 2;
+  }
+}
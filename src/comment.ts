@@ -1,6 +1,42 @@
 import { Octokit } from "octokit";
 import * as core from "@actions/core";
+import { ghRequest } from "./github";
 
+export type ExistingComment = { id: number; body: string };
+
+// First PR comment carrying the marker tag; null when there is none. Throws when the
+// comments cannot be listed, so callers never mistake a failed lookup for a missing comment.
+export async function findSingleComment(params: {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  issueNumber: number; // PR number
+  tag: string;
+}): Promise<ExistingComment | null> {
+  const { octokit, owner, repo, issueNumber, tag } = params;
+  const marker = tag.trim();
+  const perPage = 100;
+  let page = 1;
+
+  while (true) {
+    const res = await ghRequest(octokit, "GET /repos/{owner}/{repo}/issues/{issue_number}/comments", {
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: perPage,
+      page
+    });
+    const items = res.data as any[];
+    for (const c of items) {
+      const text = String(c.body ?? "");
+      if (text.includes(marker)) return { id: Number(c.id), body: text };
+    }
+    if (items.length < perPage) return null;
+    page += 1;
+  }
+}
+
+// `existing` skips the lookup when the caller already found the comment (undefined = look it up).
 export async function upsertSingleComment(params: {
   octokit: Octokit;
   owner: string;
@@ -8,48 +44,25 @@ export async function upsertSingleComment(params: {
   issueNumber: number; // PR number
   body: string;
   tag: string;
+  existing?: ExistingComment | null;
 }): Promise<void> {
   const { octokit, owner, repo, issueNumber, body, tag } = params;
 
   const marker = tag.trim();
   const fullBody = `${marker}\n${body}\n`;
 
-  // list comments and find existing
-  const perPage = 100;
-  let page = 1;
-  let existingId: number | null = null;
-
   try {
-    while (true) {
-      const res = await octokit.request("GET /repos/{owner}/{repo}/issues/{issue_number}/comments", {
-        owner,
-        repo,
-        issue_number: issueNumber,
-        per_page: perPage,
-        page
-      });
-      const items = res.data as any[];
-      for (const c of items) {
-        const text = String(c.body ?? "");
-        if (text.includes(marker)) {
-          existingId = Number(c.id);
-          break;
-        }
-      }
-      if (existingId) break;
-      if (items.length < perPage) break;
-      page += 1;
-    }
+    const existing = params.existing !== undefined ? params.existing : await findSingleComment({ octokit, owner, repo, issueNumber, tag });
 
-    if (existingId) {
-      await octokit.request("PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}", {
+    if (existing) {
+      await ghRequest(octokit, "PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}", {
         owner,
         repo,
-        comment_id: existingId,
+        comment_id: existing.id,
         body: fullBody
       });
     } else {
-      await octokit.request("POST /repos/{owner}/{repo}/issues/{issue_number}/comments", {
+      await ghRequest(octokit, "POST /repos/{owner}/{repo}/issues/{issue_number}/comments", {
         owner,
         repo,
         issue_number: issueNumber,
@@ -0,0 +1,518 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { globToRegExp, matchesAnyGlob } from "./utils";
+import { BUILTIN_PROFILES, DEFAULT_SCORING, PROFILE_NAMES, ProfileName, ScoringConfig, SUB_SCORES } from "./profile";
+
+export type PathCategory = "core" | "tests" | "deps" | "infra" | "docs" | "generated";
+
+export const PATH_CATEGORIES: PathCategory[] = ["core", "tests", "deps", "infra", "docs", "generated"];
+
+export type CategoryGlobs = {
+  include: string[];
+  exclude: string[];
+};
+
+export type ClassificationConfig = Record<PathCategory, CategoryGlobs>;
+
+export type ApiConfig = {
+  enabled: boolean;
+  entryPoints: string[] | null; // null = discover from package.json and index files
+};
+
+export type MonorepoConfig = {
+  enabled: boolean | null; // null = on when at least two workspace packages are detected
+  packages: string[] | null; // directory globs; null = npm/yarn/pnpm workspaces or lerna.json
+};
+
+export type LabelSpec = {
+  name: string;
+  color: string; // 6-digit hex, no '#'
+  description: string;
+};
+
+export type LabelsConfig = {
+  enabled: boolean;
+  skip: string | null; // PRs carrying this label are not analyzed; null = no skip label
+  tiers: Record<"low" | "moderate" | "high", LabelSpec | null>; // null = no label for that tier
+  drivers: Record<string, LabelSpec>; // driver key -> label
+};
+
+// A custom risk driver (see rules.ts). Conditions apply to the changed files matching `paths`.
+export type RuleConfig = {
+  id: string; // driver key "rule:<id>" (gate, labels)
+  label: string;
+  paths: string[];
+  exclude: string[];
+  minFiles: number;
+  maxFiles: number | null;
+  minLines: number; // churn (added + deleted lines) of the matching files
+  maxLines: number | null;
+  with: string[]; // another changed file must match one of these
+  without: string[]; // no other changed file may match these
+  rank: number; // ranked against the built-in drivers' contributions; never added to the score
+  action: string | null; // suggested action when the rule matches
+};
+
+export type DriftConfig = {
+  classification: ClassificationConfig;
+  api: ApiConfig;
+  monorepo: MonorepoConfig;
+  labels: LabelsConfig;
+  scoring: ScoringConfig;
+  rules: RuleConfig[];
+};
+
+export type PathClassifier = Record<PathCategory, (p: string) => boolean>;
+
+export const DEFAULT_CONFIG_PATH = ".drift-radar.yml";
+
+// Default profile: mirrors the historical prefix rules, expressed as globs (deps files now match at any depth).
+export const DEFAULT_CLASSIFICATION: ClassificationConfig = {
+  core: { include: ["src/**", "lib/**", "app/**"], exclude: [] },
+  tests: { include: ["tests/**", "**/__tests__/**"], exclude: [] },
+  deps: {
+    // any depth: workspaces and monorepos keep manifests next to each package
+    include: [
+      "**/package.json",
+      "**/{package-lock.json,npm-shrinkwrap.json,pnpm-lock.yaml,yarn.lock}",
+      "**/go.{mod,sum}",
+      "**/cargo.{toml,lock}",
+      "**/gemfile{,.lock}",
+      "**/pom.xml",
+      "**/poetry.lock",
+      "**/requirements*.txt",
+      "**/pipfile.lock"
+    ],
+    exclude: []
+  },
+  infra: {
+    include: [".github/**", "dockerfile", "terraform/**", "**/*.yml", "**/*.yaml", "**/*.tf"],
+    exclude: []
+  },
+  docs: { include: ["docs/**", "**/*.md", "readme*"], exclude: [] },
+  // Generated, vendored and binary files are left out of scoring (deps files never are).
+  generated: {
+    include: [
+      "vendor/**",
+      "**/vendor/**",
+      "third_party/**",
+      "node_modules/**",
+      "**/__generated__/**",
+      "**/*.generated.*",
+      "**/*.min.{js,css}",
+      "**/*.map",
+      "**/*.pb.go",
+      "**/*_pb2.py",
+      "**/*.{png,jpg,jpeg,gif,ico,webp,pdf,zip,gz,tgz,jar,woff,woff2,ttf,eot,otf,exe,dll,so,dylib,bin,mp3,mp4}"
+    ],
+    exclude: []
+  }
+};
+
+const label = (name: string, color: string, description: string): LabelSpec => ({ name, color, description });
+
+export const DEFAULT_LABELS: LabelsConfig = {
+  enabled: false,
+  skip: "drift-radar:skip",
+  tiers: {
+    low: label("drift:low", "0e8a16", "Drift Radar: low structural risk"),
+    moderate: label("drift:moderate", "fbca04", "Drift Radar: moderate structural risk"),
+    high: label("drift:high", "d93f0b", "Drift Radar: high structural risk")
+  },
+  drivers: {
+    "Core changed without tests": label("drift:untested-core", "c5def5", "Drift Radar: core code changed without tests"),
+    "Dependency churn": label("drift:deps", "c5def5", "Drift Radar: dependency changes"),
+    "Infra/config touched": label("drift:infra", "c5def5", "Drift Radar: infra/config changes"),
+    "API surface changed": label("drift:api", "c5def5", "Drift Radar: public API changes"),
+    "Cross-package spread": label("drift:cross-package", "c5def5", "Drift Radar: changes across several packages"),
+    "Ownership spread": label("drift:cross-team", "c5def5", "Drift Radar: changes across several code-owner groups")
+  }
+};
+
+export const DEFAULT_CONFIG: DriftConfig = {
+  classification: DEFAULT_CLASSIFICATION,
+  api: { enabled: true, entryPoints: null },
+  monorepo: { enabled: null, packages: null },
+  labels: DEFAULT_LABELS,
+  scoring: DEFAULT_SCORING,
+  rules: []
+};
+
+export function buildClassifier(classification: ClassificationConfig): PathClassifier {
+  const make = (c: CategoryGlobs) => (p: string) => matchesAnyGlob(p, c.include) && !matchesAnyGlob(p, c.exclude);
+  return {
+    core: make(classification.core),
+    tests: make(classification.tests),
+    deps: make(classification.deps),
+    infra: make(classification.infra),
+    docs: make(classification.docs),
+    generated: make(classification.generated)
+  };
+}
+
+export const DEFAULT_CLASSIFIER: PathClassifier = buildClassifier(DEFAULT_CLASSIFICATION);
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function readGlobList(v: unknown, where: string, errors: string[]): string[] | null {
+  if (!Array.isArray(v) || v.some((g) => typeof g !== "string" || g.trim() === "")) {
+    errors.push(`${where} must be a list of non-empty glob strings`);
+    return null;
+  }
+  const globs = v.map((g: string) => g.trim());
+  for (const g of globs) {
+    try {
+      globToRegExp(g);
+    } catch {
+      errors.push(`${where} contains an invalid glob: "${g}"`);
+      return null;
+    }
+  }
+  return globs;
+}
+
+function validateClassification(raw: unknown, errors: string[]): ClassificationConfig {
+  const out: ClassificationConfig = { ...DEFAULT_CLASSIFICATION };
+  if (raw === undefined || raw === null) return out;
+  if (!isPlainObject(raw)) {
+    errors.push("classification must be a mapping of category -> { include, exclude }");
+    return out;
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!PATH_CATEGORIES.includes(key as PathCategory)) {
+      errors.push(`classification.${key} is not a known category (expected one of: ${PATH_CATEGORIES.join(", ")})`);
+    }
+  }
+
+  for (const cat of PATH_CATEGORIES) {
+    const entry = raw[cat];
+    if (entry === undefined || entry === null) continue;
+    if (!isPlainObject(entry)) {
+      errors.push(`classification.${cat} must be a mapping with 'include' and/or 'exclude'`);
+      continue;
+    }
+    for (const k of Object.keys(entry)) {
+      if (k !== "include" && k !== "exclude") errors.push(`classification.${cat}.${k} is not a known key (expected include, exclude)`);
+    }
+
+    // include replaces the default list; exclude always applies on top of it
+    const include = entry.include === undefined ? out[cat].include : readGlobList(entry.include, `classification.${cat}.include`, errors);
+    const exclude = entry.exclude === undefined ? [] : readGlobList(entry.exclude, `classification.${cat}.exclude`, errors);
+    out[cat] = { include: include ?? out[cat].include, exclude: exclude ?? [] };
+  }
+
+  return out;
+}
+
+function validateApi(raw: unknown, errors: string[]): ApiConfig {
+  const out: ApiConfig = { ...DEFAULT_CONFIG.api };
+  if (raw === undefined || raw === null) return out;
+  if (!isPlainObject(raw)) {
+    errors.push("api must be a mapping with 'enabled' and/or 'entryPoints'");
+    return out;
+  }
+  for (const k of Object.keys(raw)) {
+    if (k !== "enabled" && k !== "entryPoints") errors.push(`api.${k} is not a known key (expected enabled, entryPoints)`);
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== "boolean") errors.push("api.enabled must be true or false");
+    else out.enabled = raw.enabled;
+  }
+  if (raw.entryPoints !== undefined) out.entryPoints = readGlobList(raw.entryPoints, "api.entryPoints", errors);
+  return out;
+}
+
+function validateMonorepo(raw: unknown, errors: string[]): MonorepoConfig {
+  const out: MonorepoConfig = { ...DEFAULT_CONFIG.monorepo };
+  if (raw === undefined || raw === null) return out;
+  if (!isPlainObject(raw)) {
+    errors.push("monorepo must be a mapping with 'enabled' and/or 'packages'");
+    return out;
+  }
+  for (const k of Object.keys(raw)) {
+    if (k !== "enabled" && k !== "packages") errors.push(`monorepo.${k} is not a known key (expected enabled, packages)`);
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== "boolean") errors.push("monorepo.enabled must be true or false");
+    else out.enabled = raw.enabled;
+  }
+  if (raw.packages !== undefined) out.packages = readGlobList(raw.packages, "monorepo.packages", errors);
+  return out;
+}
+
+const LABEL_COLOR_RE = /^[0-9a-fA-F]{6}$/;
+
+// A label is a name, or { name, color, description } (GitHub allows 50 characters per name).
+function readLabelSpec(v: unknown, where: string, fallback: LabelSpec | null, errors: string[]): LabelSpec | null {
+  const fallbackColor = fallback?.color ?? "ededed";
+  const fallbackDescription = fallback?.description ?? "Drift Radar";
+  let spec: LabelSpec | null = null;
+  if (typeof v === "string") {
+    spec = { name: v.trim(), color: fallbackColor, description: fallbackDescription };
+  } else if (isPlainObject(v)) {
+    for (const k of Object.keys(v)) {
+      if (!["name", "color", "description"].includes(k)) errors.push(`${where}.${k} is not a known key (expected name, color, description)`);
+    }
+    if (typeof v.name !== "string") {
+      errors.push(`${where}.name must be a string`);
+      return fallback;
+    }
+    const color = v.color === undefined ? fallbackColor : String(v.color).replace(/^#/, "");
+    if (!LABEL_COLOR_RE.test(color)) errors.push(`${where}.color must be a 6-digit hex color (e.g. "d93f0b")`);
+    if (v.description !== undefined && typeof v.description !== "string") errors.push(`${where}.description must be a string`);
+    spec = { name: v.name.trim(), color, description: typeof v.description === "string" ? v.description : fallbackDescription };
+  } else {
+    errors.push(`${where} must be a label name or a mapping with 'name', 'color', 'description'`);
+    return fallback;
+  }
+  if (spec.name === "" || spec.name.length > 50) errors.push(`${where} must be a label name of 1 to 50 characters`);
+  return spec;
+}
+
+// Driver keys are checked against the analysis model in labels.ts, like the gate's driver list.
+function validateLabels(raw: unknown, errors: string[]): LabelsConfig {
+  const out: LabelsConfig = { ...DEFAULT_LABELS, tiers: { ...DEFAULT_LABELS.tiers } };
+  if (raw === undefined || raw === null) return out;
+  if (!isPlainObject(raw)) {
+    errors.push("labels must be a mapping with 'enabled', 'skip', 'tiers' and/or 'drivers'");
+    return out;
+  }
+  for (const k of Object.keys(raw)) {
+    if (!["enabled", "skip", "tiers", "drivers"].includes(k)) errors.push(`labels.${k} is not a known key (expected enabled, skip, tiers, drivers)`);
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== "boolean") errors.push("labels.enabled must be true or false");
+    else out.enabled = raw.enabled;
+  }
+  if (raw.skip !== undefined) {
+    if (raw.skip !== null && (typeof raw.skip !== "string" || raw.skip.trim() === "")) errors.push("labels.skip must be a label name or null");
+    else out.skip = raw.skip === null ? null : raw.skip.trim();
+  }
+  if (raw.tiers !== undefined && raw.tiers !== null) {
+    if (!isPlainObject(raw.tiers)) errors.push("labels.tiers must be a mapping of low/moderate/high -> label");
+    else {
+      for (const [tier, v] of Object.entries(raw.tiers)) {
+        if (tier !== "low" && tier !== "moderate" && tier !== "high") {
+          errors.push(`labels.tiers.${tier} is not a known tier (expected low, moderate, high)`);
+          continue;
+        }
+        out.tiers[tier] = v === null ? null : readLabelSpec(v, `labels.tiers.${tier}`, DEFAULT_LABELS.tiers[tier], errors);
+      }
+    }
+  }
+  // drivers replaces the default mapping, like classification include lists
+  if (raw.drivers !== undefined && raw.drivers !== null) {
+    if (!isPlainObject(raw.drivers)) errors.push("labels.drivers must be a mapping of driver key -> label");
+    else {
+      out.drivers = {};
+      for (const [key, v] of Object.entries(raw.drivers)) {
+        const spec = readLabelSpec(v, `labels.drivers.${key}`, DEFAULT_LABELS.drivers[key] ?? null, errors);
+        if (spec) out.drivers[key] = spec;
+      }
+    }
+  }
+  return out;
+}
+
+const AMPLIFIER_KEYS = ["coreNoTests", "depsInfra", "depsCore", "hotspots", "spread", "cap"];
+const THRESHOLD_KEYS = ["low", "moderate"];
+const REVIEW_KEYS = ["perFile", "perRename", "unitsPerMinute", "core", "infra", "deps", "hotspots", "tests", "min", "max"];
+
+// A mapping of known keys to non-negative numbers (one override group of the scoring section).
+function readNumbers(v: unknown, where: string, keys: readonly string[], errors: string[]): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (v === undefined || v === null) return out;
+  if (!isPlainObject(v)) {
+    errors.push(`${where} must be a mapping of ${keys.join(", ")} -> number`);
+    return out;
+  }
+  for (const [k, n] of Object.entries(v)) {
+    if (!keys.includes(k)) errors.push(`${where}.${k} is not a known key (expected one of: ${keys.join(", ")})`);
+    else if (typeof n !== "number" || !Number.isFinite(n) || n < 0) errors.push(`${where}.${k} must be a non-negative number`);
+    else out[k] = n;
+  }
+  return out;
+}
+
+// Overrides are checked against the chosen profile once merged (cut-offs in order, cap >= 1).
+function validateScoring(raw: unknown, errors: string[]): ScoringConfig {
+  const out: ScoringConfig = { ...DEFAULT_SCORING };
+  if (raw === undefined || raw === null) return out;
+  if (!isPlainObject(raw)) {
+    errors.push("scoring must be a mapping with 'profile' and/or overrides");
+    return out;
+  }
+  const keys = ["profile", "weights", "amplifiers", "docsOnlyCap", "thresholds", "review"];
+  for (const k of Object.keys(raw)) {
+    if (!keys.includes(k)) errors.push(`scoring.${k} is not a known key (expected ${keys.join(", ")})`);
+  }
+  if (raw.profile !== undefined) {
+    if (!(PROFILE_NAMES as readonly string[]).includes(String(raw.profile))) {
+      errors.push(`scoring.profile must be one of: ${PROFILE_NAMES.join(", ")}`);
+    } else out.profile = raw.profile as ProfileName;
+  }
+  out.weights = readNumbers(raw.weights, "scoring.weights", SUB_SCORES, errors);
+  out.amplifiers = readNumbers(raw.amplifiers, "scoring.amplifiers", AMPLIFIER_KEYS, errors);
+  out.thresholds = readNumbers(raw.thresholds, "scoring.thresholds", THRESHOLD_KEYS, errors);
+  out.review = readNumbers(raw.review, "scoring.review", REVIEW_KEYS, errors);
+  if (raw.docsOnlyCap !== undefined && raw.docsOnlyCap !== null) {
+    if (typeof raw.docsOnlyCap !== "number" || raw.docsOnlyCap < 0 || raw.docsOnlyCap > 100) errors.push("scoring.docsOnlyCap must be a number from 0 to 100");
+    else out.docsOnlyCap = raw.docsOnlyCap;
+  }
+
+  const t = { ...BUILTIN_PROFILES[out.profile].thresholds, ...out.thresholds };
+  if (!(t.low < t.moderate && t.moderate <= 100)) errors.push(`scoring.thresholds must satisfy low < moderate <= 100 (got ${t.low}/${t.moderate})`);
+  if (out.amplifiers.cap !== undefined && out.amplifiers.cap < 1) errors.push("scoring.amplifiers.cap must be at least 1");
+  if (out.review.unitsPerMinute === 0) errors.push("scoring.review.unitsPerMinute must be above 0");
+  if (out.review.min !== undefined && out.review.max !== undefined && out.review.min > out.review.max) {
+    errors.push("scoring.review.min must not exceed scoring.review.max");
+  }
+  return out;
+}
+
+const RULE_ID_RE = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const RULE_KEYS = ["id", "label", "paths", "exclude", "minFiles", "maxFiles", "minLines", "maxLines", "with", "without", "rank", "action"];
+
+function readCount(v: unknown, where: string, errors: string[]): number | null {
+  if (v === undefined || v === null) return null;
+  if (typeof v !== "number" || !Number.isInteger(v) || v < 0) {
+    errors.push(`${where} must be a non-negative integer`);
+    return null;
+  }
+  return v;
+}
+
+function validateRules(raw: unknown, errors: string[]): RuleConfig[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    errors.push("rules must be a list of rule mappings");
+    return [];
+  }
+  const out: RuleConfig[] = [];
+  const seen = new Set<string>();
+  raw.forEach((r: unknown, i: number) => {
+    const where = `rules[${i}]`;
+    if (!isPlainObject(r)) {
+      errors.push(`${where} must be a mapping with 'id', 'label', 'paths' and 'rank'`);
+      return;
+    }
+    for (const k of Object.keys(r)) {
+      if (!RULE_KEYS.includes(k)) errors.push(`${where}.${k} is not a known key (expected one of: ${RULE_KEYS.join(", ")})`);
+    }
+    const id = typeof r.id === "string" ? r.id.trim() : "";
+    if (!RULE_ID_RE.test(id)) errors.push(`${where}.id must be letters, digits, '.', '_' or '-' (e.g. "migration-without-rollback")`);
+    else if (seen.has(id.toLowerCase())) errors.push(`${where}.id "${id}" is used by another rule`);
+    seen.add(id.toLowerCase());
+    if (typeof r.label !== "string" || r.label.trim() === "") errors.push(`${where}.label must be a non-empty string`);
+    if (r.paths === undefined) errors.push(`${where}.paths is required`);
+    if (typeof r.rank !== "number" || !Number.isFinite(r.rank) || r.rank < 0 || r.rank > 100) {
+      errors.push(`${where}.rank must be a number from 0 to 100`);
+    }
+    if (r.action !== undefined && r.action !== null && (typeof r.action !== "string" || r.action.trim() === "")) {
+      errors.push(`${where}.action must be a non-empty string`);
+    }
+    const list = (key: string) => (r[key] === undefined ? [] : (readGlobList(r[key], `${where}.${key}`, errors) ?? []));
+    const rule: RuleConfig = {
+      id,
+      label: typeof r.label === "string" ? r.label.trim() : "",
+      paths: list("paths"),
+      exclude: list("exclude"),
+      minFiles: readCount(r.minFiles, `${where}.minFiles`, errors) ?? 1,
+      maxFiles: readCount(r.maxFiles, `${where}.maxFiles`, errors),
+      minLines: readCount(r.minLines, `${where}.minLines`, errors) ?? 0,
+      maxLines: readCount(r.maxLines, `${where}.maxLines`, errors),
+      with: list("with"),
+      without: list("without"),
+      rank: typeof r.rank === "number" ? r.rank : 0,
+      action: typeof r.action === "string" ? r.action.trim() : null
+    };
+    if (rule.maxFiles !== null && rule.maxFiles < rule.minFiles) errors.push(`${where}.maxFiles must not be below minFiles`);
+    if (rule.maxLines !== null && rule.maxLines < rule.minLines) errors.push(`${where}.maxLines must not be below minLines`);
+    out.push(rule);
+  });
+  return out;
+}
+
+export function parseConfig(text: string, source: string): DriftConfig {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (e: any) {
+    throw new Error(`Invalid ${source}: YAML parse error: ${e?.message ?? String(e)}`);
+  }
+
+  if (raw === undefined || raw === null) return DEFAULT_CONFIG;
+  if (!isPlainObject(raw)) throw new Error(`Invalid ${source}: top level must be a mapping.`);
+
+  const errors: string[] = [];
+  const known = new Set(["version", "classification", "api", "monorepo", "labels", "scoring", "rules"]);
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) errors.push(`'${key}' is not a known top-level key`);
+  }
+  if (raw.version !== undefined && raw.version !== 1) errors.push("version must be 1");
+
+  const classification = validateClassification(raw.classification, errors);
+  const api = validateApi(raw.api, errors);
+  const monorepo = validateMonorepo(raw.monorepo, errors);
+  const labels = validateLabels(raw.labels, errors);
+  const scoring = validateScoring(raw.scoring, errors);
+  const rules = validateRules(raw.rules, errors);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}:\n- ${errors.join("\n- ")}`);
+  }
+
+  return { classification, api, monorepo, labels, scoring, rules };
+}
+
+// gitattributes pattern -> repo-relative glob (no slash = any depth, leading slash = root).
+function gitattributesGlob(pattern: string): string | null {
+  if (pattern.endsWith("/")) return null; // attributes never match directories
+  if (pattern.startsWith("/")) return pattern.slice(1);
+  if (!pattern.includes("/")) return `**/${pattern}`;
+  return pattern;
+}
+
+// Merges `linguist-generated` / `linguist-vendored` from .gitattributes into the
+// generated category. Unset or false values become excludes: git lets the last
+// matching line win, and opt-outs are almost always overrides of a broader pattern.
+export function applyGitattributes(classification: ClassificationConfig, text: string): ClassificationConfig {
+  const include = [...classification.generated.include];
+  const exclude = [...classification.generated.exclude];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const [pattern, ...attrs] = line.split(/\s+/);
+    const glob = gitattributesGlob(pattern);
+    if (!glob) continue;
+
+    for (const attr of attrs) {
+      const m = /^(-|!)?linguist-(generated|vendored)(?:=(\w+))?$/.exec(attr);
+      if (!m) continue;
+      const off = m[1] !== undefined || m[3] === "false";
+      (off ? exclude : include).push(glob);
+    }
+  }
+
+  try {
+    [...include, ...exclude].forEach((g) => globToRegExp(g));
+  } catch {
+    return classification; // unparseable pattern: keep the defaults rather than fail on .gitattributes
+  }
+  return { ...classification, generated: { include, exclude } };
+}
+
+export function loadConfig(configPath: string, workspace?: string): DriftConfig {
+  const root = workspace || process.env.GITHUB_WORKSPACE || process.cwd();
+  const full = path.resolve(root, configPath);
+  const config = fs.existsSync(full) ? parseConfig(fs.readFileSync(full, "utf8"), configPath) : DEFAULT_CONFIG;
+
+  const attributes = path.join(root, ".gitattributes");
+  if (!fs.existsSync(attributes)) return config;
+  return { ...config, classification: applyGitattributes(config.classification, fs.readFileSync(attributes, "utf8")) };
+}
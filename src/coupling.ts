@@ -0,0 +1,113 @@
+import * as path from "path";
+import { isExcludedFile, isPureRename, PRFile } from "./analyze";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+
+// Co-change coupling mined from the file lists of recent merged PRs: "when A changes,
+// B changes too in most PRs". Rules are directional (confidence = P(B | A)).
+
+export type CouplingLevel = "file" | "dir";
+
+export type CouplingRule = {
+  level: CouplingLevel;
+  from: string;
+  to: string;
+  support: number; // PRs that changed both sides
+  confidence: number; // support / PRs that changed `from`
+};
+
+export type MissingCoChange = CouplingRule; // `from` changed in this PR, `to` did not
+
+// Sweeping PRs (mass renames, formatting) pair everything with everything: skip them.
+const MAX_FILES_PER_PR = 40;
+export const MIN_SUPPORT = 3;
+export const MIN_CONFIDENCE = 0.7;
+const MAX_RULES = 300;
+
+function dirOf(p: string): string | null {
+  const d = path.posix.dirname(p);
+  return d === "." ? null : d;
+}
+
+function countPairs(sets: string[][], level: CouplingLevel, out: CouplingRule[]): void {
+  const single = new Map<string, number>();
+  const pair = new Map<string, number>();
+
+  for (const items of sets) {
+    for (const a of items) single.set(a, (single.get(a) ?? 0) + 1);
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const [a, b] = items[i] < items[j] ? [items[i], items[j]] : [items[j], items[i]];
+        const key = `${a}\0${b}`;
+        pair.set(key, (pair.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  for (const [key, support] of pair) {
+    if (support < MIN_SUPPORT) continue;
+    const [a, b] = key.split("\0");
+    for (const [from, to] of [
+      [a, b],
+      [b, a]
+    ]) {
+      const confidence = support / (single.get(from) ?? support);
+      if (confidence >= MIN_CONFIDENCE) out.push({ level, from, to, support, confidence });
+    }
+  }
+}
+
+export function mineCoupling(prs: { files: PRFile[] }[], classifier: PathClassifier = DEFAULT_CLASSIFIER): CouplingRule[] {
+  const fileSets: string[][] = [];
+  const dirSets: string[][] = [];
+
+  for (const pr of prs) {
+    const files = pr.files.filter((f) => !isPureRename(f) && !isExcludedFile(f, classifier)).map((f) => f.filename);
+    if (files.length < 2 || files.length > MAX_FILES_PER_PR) continue;
+    fileSets.push([...new Set(files)]);
+    dirSets.push([...new Set(files.map(dirOf).filter((d): d is string => d !== null))]);
+  }
+
+  const rules: CouplingRule[] = [];
+  countPairs(fileSets, "file", rules);
+  countPairs(dirSets, "dir", rules);
+
+  return rules
+    .sort((a, b) => b.confidence * b.support - a.confidence * a.support || a.from.localeCompare(b.from))
+    .slice(0, MAX_RULES);
+}
+
+// Rules whose `from` side this PR changes while leaving the `to` side untouched.
+// A directory rule is dropped when a file rule already names a partner inside it.
+export function findMissingCoChanges(files: PRFile[], rules: CouplingRule[]): MissingCoChange[] {
+  if (rules.length === 0) return [];
+  const touched = new Set<string>();
+  const triggers = new Set<string>();
+  for (const f of files) {
+    touched.add(f.filename);
+    if (f.previousFilename) touched.add(f.previousFilename);
+    if (f.status !== "removed" && !isPureRename(f)) triggers.add(f.filename);
+  }
+  const touchedDirs = [...new Set([...touched].map(dirOf).filter((d): d is string => d !== null))];
+  // a change anywhere below a directory touches it (db/migrations/003.sql touches db/)
+  const dirTouched = (d: string) => touchedDirs.some((t) => t === d || t.startsWith(`${d}/`));
+  const triggerDirs = new Set([...triggers].map(dirOf).filter((d): d is string => d !== null));
+
+  const missing = new Map<string, MissingCoChange>();
+  for (const r of rules) {
+    const hit = r.level === "file" ? triggers.has(r.from) && !touched.has(r.to) : triggerDirs.has(r.from) && !dirTouched(r.to);
+    if (!hit) continue;
+    const prev = missing.get(`${r.level}:${r.to}`);
+    if (!prev || r.confidence > prev.confidence) missing.set(`${r.level}:${r.to}`, r);
+  }
+
+  const fileMisses = [...missing.values()].filter((m) => m.level === "file");
+  return [...missing.values()]
+    .filter((m) => m.level === "file" || !fileMisses.some((f) => f.to.startsWith(`${m.to}/`)))
+    .sort((a, b) => (a.level === b.level ? 0 : a.level === "file" ? -1 : 1) || b.confidence - a.confidence || b.support - a.support);
+}
+
+export function describeMissingCoChange(m: MissingCoChange): string {
+  const partner = m.level === "dir" ? `${m.to}/` : m.to;
+  const trigger = m.level === "dir" ? `${m.from}/` : m.from;
+  return `${partner} (changed with ${trigger} in ${m.support} of ${Math.round(m.support / m.confidence)} PRs)`;
+}
@@ -0,0 +1,435 @@
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import type { PRFile } from "./analyze";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { ensureRevision, FileReader, gitReader } from "./git";
+
+// Semantic dependency diff: manifests and lockfiles are parsed at both commits so a
+// patch bump of one dev tool no longer weighs as much as five new runtime packages.
+// Parsers are deliberately tolerant line scanners: an unreadable file yields no entries.
+
+export type DepEcosystem = "npm" | "go" | "cargo" | "rubygems" | "maven" | "pip";
+
+export type DepScope = "runtime" | "dev";
+
+export type DepChangeKind = "added" | "removed" | "major" | "minor" | "patch" | "changed";
+
+export type DepChange = {
+  manifest: string;
+  ecosystem: DepEcosystem;
+  name: string;
+  scope: DepScope;
+  change: DepChangeKind;
+  from?: string;
+  to?: string;
+};
+
+export type DepsDiff = {
+  manifests: string[]; // dependency files that were parsed at both commits
+  changes: DepChange[]; // direct dependencies declared in manifests
+  transitive: number; // lockfile packages added, removed or re-resolved
+};
+
+type DepEntry = { version: string; scope: DepScope };
+
+type ManifestParser = { ecosystem: DepEcosystem; parse(text: string, file: string): Map<string, DepEntry> };
+
+type LockfileParser = (text: string) => Map<string, string>; // package -> resolved version(s)
+
+// ---------- manifests ----------
+
+function parsePackageJson(text: string): Map<string, DepEntry> {
+  const out = new Map<string, DepEntry>();
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return out;
+  }
+  const sections: [string, DepScope][] = [
+    ["devDependencies", "dev"],
+    ["optionalDependencies", "runtime"],
+    ["peerDependencies", "runtime"],
+    ["dependencies", "runtime"]
+  ];
+  // later sections win: a package listed as both dev and runtime dependency is runtime
+  for (const [section, scope] of sections) {
+    const deps = json?.[section];
+    if (typeof deps !== "object" || deps === null) continue;
+    for (const [name, version] of Object.entries(deps)) out.set(name, { version: String(version), scope });
+  }
+  return out;
+}
+
+// Indirect requirements are left to the go.sum diff (transitive).
+function parseGoMod(text: string): Map<string, DepEntry> {
+  const out = new Map<string, DepEntry>();
+  let inBlock = false;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (inBlock && line.startsWith(")")) {
+      inBlock = false;
+      continue;
+    }
+    if (/^require\s*\($/.test(line)) {
+      inBlock = true;
+      continue;
+    }
+    const m = (inBlock ? /^(\S+)\s+(\S+)(.*)$/ : /^require\s+(\S+)\s+(\S+)(.*)$/).exec(line);
+    if (!m || m[1].startsWith("//") || /\/\/\s*indirect/.test(m[3])) continue;
+    out.set(m[1], { version: m[2], scope: "runtime" });
+  }
+  return out;
+}
+
+function tomlString(v: string): string {
+  return v.trim().replace(/^["']|["']$/g, "");
+}
+
+function parseCargoToml(text: string): Map<string, DepEntry> {
+  const out = new Map<string, DepEntry>();
+  let scope: DepScope | null = null;
+  let tableDep: string | null = null; // [dependencies.serde] style
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const header = /^\[([^\]]+)\]$/.exec(line);
+    if (header) {
+      const parts = header[1].split(".").map(tomlString);
+      const idx = parts.findIndex((p) => /^(dev-|build-)?dependencies$/.test(p));
+      scope = idx < 0 ? null : parts[idx] === "dependencies" ? "runtime" : "dev";
+      tableDep = idx >= 0 && idx < parts.length - 1 ? parts[idx + 1] : null;
+      if (scope && tableDep) out.set(tableDep, { version: "*", scope });
+      continue;
+    }
+    if (!scope) continue;
+
+    const kv = /^([\w.-]+|"[^"]+")\s*=\s*(.+)$/.exec(line);
+    if (!kv) continue;
+    const key = tomlString(kv[1]);
+    if (tableDep) {
+      if (key === "version") out.set(tableDep, { version: tomlString(kv[2]), scope });
+      continue;
+    }
+    const value = kv[2].trim();
+    const inline = /version\s*=\s*["']([^"']+)["']/.exec(value);
+    out.set(key, { version: value.startsWith("{") ? inline?.[1] ?? "*" : tomlString(value), scope });
+  }
+  return out;
+}
+
+// Direct gems are listed under DEPENDENCIES; their resolved versions live under specs.
+function parseGemfileLock(text: string): Map<string, DepEntry> {
+  const out = new Map<string, DepEntry>();
+  const resolved = parseGemfileLockSpecs(text);
+  let inDeps = false;
+  for (const raw of text.split(/\r?\n/)) {
+    if (/^\S/.test(raw)) {
+      inDeps = raw.trim() === "DEPENDENCIES";
+      continue;
+    }
+    const m = inDeps ? /^ {2}([^\s!(]+)/.exec(raw) : null;
+    if (m) out.set(m[1], { version: resolved.get(m[1]) ?? "*", scope: "runtime" });
+  }
+  return out;
+}
+
+function resolveMavenProperty(value: string, props: Map<string, string>): string {
+  return value.replace(/\$\{([^}]+)\}/g, (m, key) => props.get(key) ?? m);
+}
+
+function xmlTag(block: string, tag: string): string | null {
+  const m = new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`).exec(block);
+  return m ? m[1] : null;
+}
+
+function parsePomXml(text: string): Map<string, DepEntry> {
+  const out = new Map<string, DepEntry>();
+  const src = text.replace(/<!--[\s\S]*?-->/g, "");
+  const props = new Map<string, string>();
+  const propsBlock = /<properties>([\s\S]*?)<\/properties>/.exec(src);
+  if (propsBlock) {
+    for (const m of propsBlock[1].matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) props.set(m[1], m[2]);
+  }
+  // plugins declare <dependency> blocks too, but only inside <plugin>: keep those out
+  const body = src.replace(/<plugins>[\s\S]*?<\/plugins>/g, "");
+  for (const m of body.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const group = xmlTag(m[1], "groupId");
+    const artifact = xmlTag(m[1], "artifactId");
+    if (!group || !artifact) continue;
+    const version = resolveMavenProperty(xmlTag(m[1], "version") ?? "*", props);
+    const scope = xmlTag(m[1], "scope");
+    out.set(`${group}:${artifact}`, { version, scope: scope === "test" ? "dev" : "runtime" });
+  }
+  return out;
+}
+
+function parseRequirementsTxt(text: string, file: string): Map<string, DepEntry> {
+  const out = new Map<string, DepEntry>();
+  const scope: DepScope = /dev|test|lint|doc/i.test(path.posix.basename(file)) ? "dev" : "runtime";
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#") || line.startsWith("-")) continue;
+    const m = /^([A-Za-z0-9][\w.-]*)(?:\[[^\]]*\])?\s*(?:(===?|~=|>=|<=|>|<|!=)\s*([^\s,;]+))?/.exec(line);
+    if (m) out.set(m[1].toLowerCase().replace(/_/g, "-"), { version: m[3] ?? "*", scope });
+  }
+  return out;
+}
+
+const MANIFEST_PARSERS: [RegExp, ManifestParser][] = [
+  [/^package\.json$/, { ecosystem: "npm", parse: parsePackageJson }],
+  [/^go\.mod$/, { ecosystem: "go", parse: parseGoMod }],
+  [/^cargo\.toml$/, { ecosystem: "cargo", parse: parseCargoToml }],
+  [/^gemfile\.lock$/, { ecosystem: "rubygems", parse: parseGemfileLock }],
+  [/^pom\.xml$/, { ecosystem: "maven", parse: parsePomXml }],
+  [/^requirements[\w.-]*\.txt$/, { ecosystem: "pip", parse: parseRequirementsTxt }]
+];
+
+// ---------- lockfiles ----------
+
+function addResolved(out: Map<string, string>, name: string, version: string): void {
+  const prev = out.get(name);
+  if (prev === undefined) out.set(name, version);
+  else if (!prev.split(" ").includes(version)) out.set(name, [...prev.split(" "), version].sort().join(" "));
+}
+
+function parsePackageLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return out;
+  }
+  if (json?.packages && typeof json.packages === "object") {
+    for (const [key, entry] of Object.entries<any>(json.packages)) {
+      const idx = key.lastIndexOf("node_modules/");
+      if (idx < 0 || typeof entry?.version !== "string") continue;
+      addResolved(out, key.slice(idx + "node_modules/".length), entry.version);
+    }
+    return out;
+  }
+  // lockfileVersion 1: nested "dependencies" trees
+  const walk = (deps: any) => {
+    if (!deps || typeof deps !== "object") return;
+    for (const [name, entry] of Object.entries<any>(deps)) {
+      if (typeof entry?.version === "string") addResolved(out, name, entry.version);
+      walk(entry?.dependencies);
+    }
+  };
+  walk(json?.dependencies);
+  return out;
+}
+
+// Classic (`version "1.2.3"`) and Berry (`version: 1.2.3`) entries share the same shape.
+function parseYarnLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let names: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if (/^\S/.test(raw) && !raw.startsWith("#")) {
+      names = raw
+        .replace(/:$/, "")
+        .split(",")
+        .map((s) => tomlString(s.trim()))
+        .map((s) => s.slice(0, s.indexOf("@", 1)))
+        .filter(Boolean);
+      continue;
+    }
+    const m = /^ {2}version:?\s+"?([^"\s]+)"?/.exec(raw);
+    if (m) for (const name of new Set(names)) addResolved(out, name, m[1]);
+  }
+  out.delete("__metadata");
+  return out;
+}
+
+// Keys look like "/name/1.2.3" (v5), "/name@1.2.3" (v6) or "name@1.2.3(peer@x)" (v9).
+function parsePnpmLock(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let doc: any;
+  try {
+    doc = parseYaml(text);
+  } catch {
+    return out;
+  }
+  for (const key of Object.keys(doc?.packages ?? {})) {
+    const k = key.replace(/^\//, "").replace(/\(.*$/, "");
+    const at = k.lastIndexOf("@");
+    if (at > 0) addResolved(out, k.slice(0, at), k.slice(at + 1));
+    else {
+      const slash = k.lastIndexOf("/");
+      if (slash > 0) addResolved(out, k.slice(0, slash), k.slice(slash + 1));
+    }
+  }
+  return out;
+}
+
+// Cargo.lock and poetry.lock: [[package]] tables with name/version keys.
+function parsePackageTables(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const block of text.split(/^\[\[package\]\]\s*$/m).slice(1)) {
+    const name = /^name\s*=\s*"([^"]+)"/m.exec(block);
+    const version = /^version\s*=\s*"([^"]+)"/m.exec(block);
+    if (name && version) addResolved(out, name[1], version[1]);
+  }
+  return out;
+}
+
+function parseGoSum(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const m = /^(\S+)\s+(v[^\s/]+)\s/.exec(line);
+    if (m) addResolved(out, m[1], m[2]);
+  }
+  return out;
+}
+
+function parseGemfileLockSpecs(text: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const m of text.matchAll(/^ {4}([^\s(]+) \(([^)]+)\)$/gm)) addResolved(out, m[1], m[2]);
+  return out;
+}
+
+const LOCKFILE_PARSERS: [RegExp, LockfileParser][] = [
+  [/^package-lock\.json$|^npm-shrinkwrap\.json$/, parsePackageLock],
+  [/^yarn\.lock$/, parseYarnLock],
+  [/^pnpm-lock\.yaml$/, parsePnpmLock],
+  [/^cargo\.lock$|^poetry\.lock$/, parsePackageTables],
+  [/^go\.sum$/, parseGoSum],
+  [/^gemfile\.lock$/, parseGemfileLockSpecs]
+];
+
+// ---------- diffing ----------
+
+function versionParts(v: string): number[] | null {
+  const m = /(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(v);
+  if (!m) return null;
+  return [Number(m[1]), Number(m[2] ?? 0), Number(m[3] ?? 0)];
+}
+
+// Semver bump between two declared versions or ranges. Below 1.0 a minor bump is breaking.
+export function classifyBump(from: string, to: string): DepChangeKind | null {
+  if (from === to) return null;
+  const a = versionParts(from);
+  const b = versionParts(to);
+  if (!a || !b) return "changed";
+  if (a[0] !== b[0]) return "major";
+  if (a[1] !== b[1]) return a[0] === 0 ? "major" : "minor";
+  if (a[2] !== b[2]) return a[0] === 0 && a[1] === 0 ? "major" : "patch";
+  return "changed"; // same numbers, different range operator or pre-release tag
+}
+
+export function diffManifest(
+  manifest: string,
+  ecosystem: DepEcosystem,
+  before: Map<string, DepEntry>,
+  after: Map<string, DepEntry>
+): DepChange[] {
+  const changes: DepChange[] = [];
+  for (const [name, entry] of after) {
+    const prev = before.get(name);
+    if (!prev) {
+      changes.push({ manifest, ecosystem, name, scope: entry.scope, change: "added", to: entry.version });
+      continue;
+    }
+    const bump = classifyBump(prev.version, entry.version);
+    if (bump) changes.push({ manifest, ecosystem, name, scope: entry.scope, change: bump, from: prev.version, to: entry.version });
+    // a move between dev and runtime without a version change is a real change too
+    else if (prev.scope !== entry.scope) changes.push({ manifest, ecosystem, name, scope: entry.scope, change: "changed", from: prev.version, to: entry.version });
+  }
+  for (const [name, entry] of before) {
+    if (!after.has(name)) changes.push({ manifest, ecosystem, name, scope: entry.scope, change: "removed", from: entry.version });
+  }
+  return changes;
+}
+
+function diffLockfile(before: Map<string, string>, after: Map<string, string>): number {
+  let n = 0;
+  for (const [name, v] of after) if (before.get(name) !== v) n += 1;
+  for (const name of before.keys()) if (!after.has(name)) n += 1;
+  return n;
+}
+
+function findParser<T>(table: [RegExp, T][], file: string): T | null {
+  const base = path.posix.basename(file).toLowerCase();
+  return table.find(([re]) => re.test(base))?.[1] ?? null;
+}
+
+// Pure function over two readers so the CLI, the action and callers with in-memory
+// contents share one implementation.
+export function diffDependencies(
+  files: PRFile[],
+  readBase: FileReader,
+  readHead: FileReader,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER
+): DepsDiff {
+  const out: DepsDiff = { manifests: [], changes: [], transitive: 0 };
+
+  for (const f of files) {
+    if (!classifier.deps(f.filename)) continue;
+    const manifest = findParser(MANIFEST_PARSERS, f.filename);
+    const lockfile = findParser(LOCKFILE_PARSERS, f.filename);
+    if (!manifest && !lockfile) continue;
+
+    const before = f.status === "added" ? "" : readBase(f.previousFilename ?? f.filename) ?? "";
+    const after = f.status === "removed" ? "" : readHead(f.filename) ?? "";
+    out.manifests.push(f.filename);
+
+    if (manifest) {
+      out.changes.push(...diffManifest(f.filename, manifest.ecosystem, manifest.parse(before, f.filename), manifest.parse(after, f.filename)));
+    }
+    if (lockfile) {
+      const direct = manifest ? new Set(out.changes.filter((c) => c.manifest === f.filename).map((c) => c.name)) : new Set<string>();
+      const lockedBefore = lockfile(before);
+      const lockedAfter = lockfile(after);
+      // Gemfile.lock doubles as the manifest: its direct gems are not counted again
+      for (const name of direct) {
+        lockedBefore.delete(name);
+        lockedAfter.delete(name);
+      }
+      out.transitive += diffLockfile(lockedBefore, lockedAfter);
+    }
+  }
+
+  return out;
+}
+
+// Null when the base commit is not in the checkout (and cannot be fetched).
+export function computeDepsDiff(
+  root: string,
+  baseRev: string,
+  headRev: string,
+  files: PRFile[],
+  classifier: PathClassifier = DEFAULT_CLASSIFIER
+): DepsDiff | null {
+  if (!files.some((f) => classifier.deps(f.filename))) return { manifests: [], changes: [], transitive: 0 };
+  if (!ensureRevision(root, baseRev)) return null;
+  return diffDependencies(files, gitReader(root, baseRev), gitReader(root, headRev), classifier);
+}
+
+const CHANGE_ORDER: Record<DepChangeKind, number> = { added: 0, major: 1, removed: 2, changed: 3, minor: 4, patch: 5 };
+
+// Runtime before dev, then added > major > removed > changed > minor > patch.
+export function notableDepChanges(changes: DepChange[], n = 6): DepChange[] {
+  return [...changes]
+    .sort((a, b) => (a.scope === b.scope ? 0 : a.scope === "runtime" ? -1 : 1) || CHANGE_ORDER[a.change] - CHANGE_ORDER[b.change])
+    .slice(0, n);
+}
+
+export function describeDepChange(c: DepChange): string {
+  const dev = c.scope === "dev";
+  if (c.change === "added") return `+${c.name} ${c.to}${dev ? " (dev)" : ""}`;
+  if (c.change === "removed") return `-${c.name}${dev ? " (dev)" : ""}`;
+  return `${c.name} ${c.from} → ${c.to} (${c.change}${dev ? ", dev" : ""})`;
+}
+
+export function describeDepsDiff(diff: DepsDiff): string | null {
+  if (diff.changes.length === 0 && diff.transitive === 0) return null;
+  const shown = notableDepChanges(diff.changes);
+  const parts = shown.map(describeDepChange);
+  const more = diff.changes.length - shown.length;
+  if (more > 0) parts.push(`${more} more`);
+  if (diff.transitive > 0) parts.push(`${diff.transitive} lockfile package(s) re-resolved`);
+  return parts.join(", ");
+}
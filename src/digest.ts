@@ -0,0 +1,300 @@
+import * as core from "@actions/core";
+import { Octokit } from "octokit";
+import { Driver, isExcludedFile, isPureRename, PRFile, Scores } from "./analyze";
+import { BaselinePR, NO_PATH_SIGNALS, PathSignals, scorePastPR } from "./baseline";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { listMergedPulls, listPullFiles, MergeWindow, RateLimitBudgetError } from "./github";
+import { Criticality } from "./graph";
+import { DEFAULT_PROFILE, ScoringModel, scoringModel, ScoringProfile } from "./profile";
+import { verdictOf, Verdict } from "./report";
+import { median } from "./utils";
+
+// Repository drift report (mode: report): every merged PR in a window scored with the
+// baseline model, summarized over time for a periodic review instead of one PR at a time.
+
+export type DigestPR = {
+  number: number;
+  title: string;
+  mergedAt: string;
+  score: number;
+  verdict: Verdict;
+  verdictEmoji: Scores["verdictEmoji"];
+  files: number;
+  lines: number;
+  reviewMinutes: number;
+  drivers: Driver[]; // top 3, as in the PR comment
+  driverKeys: string[]; // every active driver
+  paths: string[]; // scored files (renames and generated files left out)
+};
+
+export type DigestPeriod = {
+  period: string; // 2024-05 or 2024-W19
+  prs: number;
+  medianScore: number | null;
+  maxScore: number | null;
+  low: number;
+  moderate: number;
+  high: number;
+};
+
+export type DriverFrequency = { key: string; prs: number; share: number };
+
+export type HotspotTrend = {
+  path: string;
+  total: number;
+  perPeriod: number[]; // PRs touching the file, aligned with `periods`
+};
+
+export type Digest = {
+  generatedAt: string;
+  repository: string;
+  model: ScoringModel;
+  window: { since: string | null; until: string | null; requested: number | null };
+  granularity: "week" | "month";
+  prs: DigestPR[]; // newest merge first
+  missingPRs: number;
+  medianScore: number | null;
+  periods: DigestPeriod[]; // oldest first
+  highestRisk: DigestPR[];
+  drivers: DriverFrequency[];
+  hotspots: HotspotTrend[];
+};
+
+const HIGHEST_RISK_ROWS = 10;
+const HOTSPOT_ROWS = 10;
+// Above this span, weekly buckets get too thin to read.
+const WEEKLY_MAX_DAYS = 120;
+
+function isoWeek(d: Date): string {
+  const t = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  const day = t.getUTCDay() || 7;
+  t.setUTCDate(t.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(t.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((t.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${t.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+function periodOf(mergedAt: string, granularity: Digest["granularity"]): string {
+  const d = new Date(mergedAt);
+  return granularity === "week" ? isoWeek(d) : d.toISOString().slice(0, 7);
+}
+
+// Fetches and scores merged PRs. Files of PRs already in the cached baseline are reused.
+export async function collectMergedPRs(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  n: number,
+  window: MergeWindow,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null,
+  known: BaselinePR[] = [],
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
+): Promise<{ prs: DigestPR[]; missing: number }> {
+  const merged = await listMergedPulls(octokit, owner, repo, n, window);
+  const cached = new Map(known.map((r) => [r.number, r.files]));
+
+  const results = await Promise.allSettled(
+    merged.map(async (pr) => ({ pr, files: cached.get(pr.number) ?? (await listPullFiles(octokit, owner, repo, pr.number, "low")) }))
+  );
+
+  const prs: DigestPR[] = [];
+  let missing = 0;
+  for (const [i, r] of results.entries()) {
+    if (r.status === "rejected") {
+      if (!(r.reason instanceof RateLimitBudgetError)) {
+        core.info(`Unable to read files of PR #${merged[i].number} (skipped). ${r.reason?.message ?? String(r.reason)}`);
+      }
+      missing += 1;
+      continue;
+    }
+    const { pr, files } = r.value;
+    prs.push(scoreMergedPR(pr.number, pr.title ?? "", pr.mergedAt, files, classifier, criticality, profile, signals));
+  }
+  if (missing > 0) core.warning(`Report is partial: ${missing} of ${merged.length} merged PRs skipped (API rate limit or errors).`);
+  return { prs: prs.sort((a, b) => Date.parse(b.mergedAt) - Date.parse(a.mergedAt)), missing };
+}
+
+// Same model as the baseline (no hotspot heat), so report scores line up with the trend median.
+export function scoreMergedPR(
+  number: number,
+  title: string,
+  mergedAt: string,
+  files: PRFile[],
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
+): DigestPR {
+  const res = scorePastPR(files, classifier, criticality, profile, signals);
+  return {
+    number,
+    title,
+    mergedAt,
+    score: res.scores.score,
+    verdict: verdictOf(res.scores.verdictEmoji),
+    verdictEmoji: res.scores.verdictEmoji,
+    files: res.counts.F,
+    lines: res.counts.L,
+    reviewMinutes: res.scores.reviewMinutes,
+    drivers: res.driversTop3,
+    driverKeys: res.drivers.map((d) => d.key),
+    paths: files.filter((f) => !isPureRename(f) && !isExcludedFile(f, classifier)).map((f) => f.filename)
+  };
+}
+
+export function buildDigest(params: {
+  repository: string;
+  prs: DigestPR[];
+  window: MergeWindow;
+  requested: number | null;
+  missing?: number;
+  profile?: ScoringProfile;
+  now?: Date;
+}): Digest {
+  const { repository, window, requested, missing = 0, profile = DEFAULT_PROFILE, now = new Date() } = params;
+  const prs = [...params.prs].sort((a, b) => Date.parse(b.mergedAt) - Date.parse(a.mergedAt));
+
+  const times = prs.map((p) => Date.parse(p.mergedAt));
+  const spanDays = times.length > 1 ? (Math.max(...times) - Math.min(...times)) / 86_400_000 : 0;
+  const granularity: Digest["granularity"] = spanDays <= WEEKLY_MAX_DAYS ? "week" : "month";
+
+  const byPeriod = new Map<string, DigestPR[]>();
+  for (const p of [...prs].reverse()) {
+    const key = periodOf(p.mergedAt, granularity);
+    byPeriod.set(key, [...(byPeriod.get(key) ?? []), p]);
+  }
+  const periodKeys = [...byPeriod.keys()].sort();
+  const periods = periodKeys.map((period) => {
+    const list = byPeriod.get(period)!;
+    const scores = list.map((p) => p.score);
+    return {
+      period,
+      prs: list.length,
+      medianScore: median(scores),
+      maxScore: scores.length ? Math.max(...scores) : null,
+      low: list.filter((p) => p.verdict === "low").length,
+      moderate: list.filter((p) => p.verdict === "moderate").length,
+      high: list.filter((p) => p.verdict === "high").length
+    };
+  });
+
+  const driverCounts = new Map<string, number>();
+  for (const p of prs) for (const d of p.drivers) driverCounts.set(d.key, (driverCounts.get(d.key) ?? 0) + 1);
+  const drivers = [...driverCounts.entries()]
+    .map(([key, count]) => ({ key, prs: count, share: prs.length ? Math.round((count / prs.length) * 100) / 100 : 0 }))
+    .sort((a, b) => b.prs - a.prs || a.key.localeCompare(b.key));
+
+  // Files changed by the most PRs over the window, with their count per period.
+  const fileCounts = new Map<string, number[]>();
+  for (const p of prs) {
+    const i = periodKeys.indexOf(periodOf(p.mergedAt, granularity));
+    for (const path of new Set(p.paths)) {
+      const row = fileCounts.get(path) ?? periodKeys.map(() => 0);
+      row[i] += 1;
+      fileCounts.set(path, row);
+    }
+  }
+  const hotspots = [...fileCounts.entries()]
+    .map(([path, perPeriod]) => ({ path, total: perPeriod.reduce((s, c) => s + c, 0), perPeriod }))
+    .filter((h) => h.total >= 2)
+    .sort((a, b) => b.total - a.total || a.path.localeCompare(b.path))
+    .slice(0, HOTSPOT_ROWS);
+
+  return {
+    generatedAt: now.toISOString(),
+    repository,
+    model: scoringModel(profile),
+    window: { since: window.since?.toISOString() ?? null, until: window.until?.toISOString() ?? null, requested },
+    granularity,
+    prs,
+    missingPRs: missing,
+    medianScore: median(prs.map((p) => p.score)),
+    periods,
+    highestRisk: [...prs].sort((a, b) => b.score - a.score || Date.parse(b.mergedAt) - Date.parse(a.mergedAt)).slice(0, HIGHEST_RISK_ROWS),
+    drivers,
+    hotspots
+  };
+}
+
+function cell(s: string): string {
+  return s.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function windowText(d: Digest): string {
+  const day = (iso: string | null) => (iso ? iso.slice(0, 10) : null);
+  const { since, until, requested } = d.window;
+  if (since || until) return `merged ${since ? `from ${day(since)}` : ""}${since && until ? " " : ""}${until ? `until ${day(until)}` : ""}`;
+  return `last ${requested ?? d.prs.length} merged PRs`;
+}
+
+export function digestMarkdown(d: Digest): string {
+  const parts: string[] = [`## Drift Radar — repository drift report for ${d.repository}`];
+  const median = d.medianScore === null ? "n/a" : String(Math.round(d.medianScore));
+  const partial = d.missingPRs > 0 ? ` · partial: ${d.missingPRs} PR(s) skipped (API rate limit or errors)` : "";
+  parts.push(`_${d.prs.length} PRs, ${windowText(d)} · median score ${median} · model ${d.model.id} v${d.model.version} · generated ${d.generatedAt.slice(0, 10)}${partial}_`);
+  if (d.prs.length === 0) return [...parts, "No merged PRs in this window."].join("\n\n");
+
+  const fmt = (n: number | null) => (n === null ? "—" : String(Math.round(n)));
+  parts.push(
+    `### Score distribution by ${d.granularity}\n\n` +
+      [
+        "| Period | PRs | Median | Max | 🟢 | 🟡 | 🔴 |",
+        "|---|---:|---:|---:|---:|---:|---:|",
+        ...d.periods.map((p) => `| ${p.period} | ${p.prs} | ${fmt(p.medianScore)} | ${fmt(p.maxScore)} | ${p.low} | ${p.moderate} | ${p.high} |`)
+      ].join("\n")
+  );
+
+  parts.push(
+    "### Highest-risk merged PRs\n\n" +
+      [
+        "| PR | Merged | Score | Files | Drivers |",
+        "|---|---|---:|---:|---|",
+        ...d.highestRisk.map(
+          (p) =>
+            `| #${p.number} ${cell(p.title)} | ${p.mergedAt.slice(0, 10)} | ${p.score} ${p.verdictEmoji} | ${p.files} | ` +
+            `${cell(p.drivers.map((x) => x.label).join(", ") || "—")} |`
+        )
+      ].join("\n")
+  );
+
+  if (d.drivers.length > 0) {
+    parts.push(
+      "### Most frequent drivers\n\n" +
+        ["| Driver | PRs | Share |", "|---|---:|---:|", ...d.drivers.map((x) => `| ${x.key} | ${x.prs} | ${Math.round(x.share * 100)}% |`)].join("\n")
+    );
+  }
+
+  if (d.hotspots.length > 0) {
+    const head = `| File | Total | ${d.periods.map((p) => p.period).join(" | ")} |`;
+    const sep = `|---|---:|${d.periods.map(() => "---:").join("|")}|`;
+    const rows = d.hotspots.map((h) => `| \`${h.path}\` | ${h.total} | ${h.perPeriod.map((c) => (c === 0 ? "·" : String(c))).join(" | ")} |`);
+    parts.push(`### Hotspot evolution\n\nPRs touching each file, per ${d.granularity}.\n\n${[head, sep, ...rows].join("\n")}`);
+  }
+
+  return parts.join("\n\n");
+}
+
+function csvField(v: string | number): string {
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// One row per merged PR; drivers are the comment's top three keys, separated by ";".
+export function digestCsv(d: Digest): string {
+  const rows = [["number", "title", "merged_at", "score", "verdict", "files", "lines", "review_minutes", "drivers"]];
+  for (const p of d.prs) {
+    rows.push([String(p.number), p.title, p.mergedAt, String(p.score), p.verdict, String(p.files), String(p.lines), String(p.reviewMinutes), p.drivers.map((x) => x.key).join(";")]);
+  }
+  return rows.map((r) => r.map(csvField).join(",")).join("\n") + "\n";
+}
+
+// ISO date or date-time; a bare date as `until` covers that whole day.
+export function parseReportDate(input: string, name: string, endOfDay = false): Date | undefined {
+  const v = input.trim();
+  if (!v) return undefined;
+  const t = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(v) ? `${v}T${endOfDay ? "23:59:59.999" : "00:00:00"}Z` : v);
+  if (Number.isNaN(t)) throw new Error(`Input '${name}' must be an ISO date (e.g. 2024-05-01), got "${input}".`);
+  return new Date(t);
+}
@@ -0,0 +1,113 @@
+import { AnalyzeResult, DriverKey, fileHeat, HeatMap, HOT_HEAT, isExcludedFile, isPureRename, knownDriverKeys, PRFile } from "./analyze";
+import { DEFAULT_CLASSIFIER, PathClassifier, RuleConfig } from "./config";
+import { CheckAnnotation } from "./github";
+import { CENTRAL_FAN_IN, Criticality } from "./graph";
+
+export type GateOptions = {
+  failAbove: number | null;
+  failOnDrivers: DriverKey[];
+};
+
+export type GateDecision = {
+  conclusion: "success" | "failure" | "neutral";
+  title: string;
+  reasons: string[];
+};
+
+export function parseGateOptions(failAboveInput: string, failOnDriversInput: string, rules: RuleConfig[] = []): GateOptions {
+  const failAboveStr = failAboveInput.trim();
+  let failAbove: number | null = null;
+  if (failAboveStr) {
+    failAbove = Number(failAboveStr);
+    if (!Number.isFinite(failAbove) || failAbove < 0 || failAbove > 100) {
+      throw new Error(`Input 'fail-above' must be a number between 0 and 100 (got "${failAboveStr}").`);
+    }
+  }
+
+  const known = knownDriverKeys(rules);
+  const failOnDrivers: DriverKey[] = [];
+  for (const raw of failOnDriversInput.split(/[\n,]/)) {
+    const key = raw.trim();
+    if (!key) continue;
+    if (!known.includes(key)) {
+      throw new Error(`Input 'fail-on-drivers' has unknown driver "${key}". Known drivers: ${known.join(", ")}.`);
+    }
+    failOnDrivers.push(key as DriverKey);
+  }
+
+  return { failAbove, failOnDrivers };
+}
+
+// No criteria configured => neutral: the check is visible but never blocks.
+export function evaluateGate(res: AnalyzeResult, opts: GateOptions): GateDecision {
+  const { score } = res.scores;
+
+  if (opts.failAbove === null && opts.failOnDrivers.length === 0) {
+    return { conclusion: "neutral", title: `Drift score ${score}/100 (advisory)`, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  if (opts.failAbove !== null && score > opts.failAbove) {
+    reasons.push(`Score ${score} is above the threshold of ${opts.failAbove}`);
+  }
+  // Only the main drivers block: "Large change size" is always listed, however small.
+  for (const d of res.driversTop3) {
+    if (opts.failOnDrivers.includes(d.key)) reasons.push(`Blocking driver: ${d.key}`);
+  }
+
+  if (reasons.length > 0) {
+    return { conclusion: "failure", title: `Drift score ${score}/100 — blocked`, reasons };
+  }
+  return { conclusion: "success", title: `Drift score ${score}/100 — within limits`, reasons };
+}
+
+export function buildFileAnnotations(
+  files: PRFile[],
+  res: AnalyzeResult,
+  heat: HeatMap,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null
+): CheckAnnotation[] {
+  const { T } = res.counts;
+  const out: CheckAnnotation[] = [];
+
+  for (const f of files) {
+    if (isPureRename(f) || isExcludedFile(f, classifier)) continue;
+    // Annotations cannot point at a file that no longer exists in the head commit.
+    if (f.status === "removed") continue;
+
+    const p = f.filename;
+    const reasons: string[] = [];
+    let level: CheckAnnotation["annotation_level"] = "notice";
+
+    const fanIn = criticality?.fanIn(p) ?? null;
+    if (classifier.core(p) || (fanIn !== null && fanIn >= CENTRAL_FAN_IN)) {
+      if (T === 0 && !res.counts.deletionHeavy) {
+        reasons.push("core file changed and the PR touches no test files");
+        level = "warning";
+      } else {
+        reasons.push("core file");
+      }
+    }
+    if (fanIn !== null && fanIn > 0) reasons.push(`imported by ${fanIn} module(s)`);
+    if (classifier.deps(p)) reasons.push("dependency manifest or lockfile");
+    if (classifier.infra(p)) reasons.push("infra/config file");
+    const h = fileHeat(f, heat);
+    if (h >= HOT_HEAT) reasons.push(`hotspot: heat ${h.toFixed(1)} from recent merged PRs`);
+    const partners = res.missingCoChanges.filter((m) => m.level === "file" && m.from === p).map((m) => m.to);
+    if (partners.length > 0) reasons.push(`usually changes together with ${partners.join(", ")} (not in this PR)`);
+
+    if (reasons.length === 0) continue;
+
+    out.push({
+      path: p,
+      start_line: 1,
+      end_line: 1,
+      annotation_level: level,
+      title: "Drift Radar",
+      message: `Counted toward the drift score: ${reasons.join("; ")} (+${f.additions}/-${f.deletions} lines).`
+    });
+  }
+
+  return out;
+}
@@ -0,0 +1,29 @@
+import { execFileSync } from "child_process";
+
+// Read-only git plumbing over the checked-out workspace. Failures return null: every
+// caller treats missing history as "signal unavailable", never as an error.
+
+export type FileReader = (p: string) => string | null;
+
+export function gitOutput(root: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", args, { cwd: root, encoding: "utf8", maxBuffer: 64 * 1024 * 1024, stdio: ["ignore", "pipe", "ignore"] });
+  } catch {
+    return null;
+  }
+}
+
+export function gitReader(root: string, rev: string): FileReader {
+  const memo = new Map<string, string | null>();
+  return (p) => {
+    if (!memo.has(p)) memo.set(p, gitOutput(root, ["show", `${rev}:${p}`]));
+    return memo.get(p) ?? null;
+  };
+}
+
+// Shallow CI checkouts often lack the base commit: fetch just that commit once.
+export function ensureRevision(root: string, rev: string): boolean {
+  if (gitOutput(root, ["cat-file", "-e", `${rev}^{commit}`]) !== null) return true;
+  gitOutput(root, ["fetch", "--no-tags", "--depth=1", "origin", rev]);
+  return gitOutput(root, ["cat-file", "-e", `${rev}^{commit}`]) !== null;
+}
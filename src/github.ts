@@ -1,21 +1,234 @@
 import { Octokit } from "octokit";
+import * as core from "@actions/core";
 import * as github from "@actions/github";
+import type { FileStatus } from "./analyze";
 
 export type GHContext = {
   owner: string;
   repo: string;
   pullNumber: number;
   defaultBranch: string;
+  headSha: string | null;
+  baseSha: string | null;
+  labels: string[] | null; // PR labels from the event payload; null = unknown (dispatch runs)
+  event: string; // workflow event name (pull_request, push, merge_group, …)
 };
 
 export type PRFileApi = {
   filename: string;
   additions: number;
   deletions: number;
+  status?: FileStatus;
+  previousFilename?: string;
+  binary?: boolean;
 };
 
-export function makeOctokit(token: string): Octokit {
-  return new Octokit({ auth: token });
+export type RequestPolicy = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number; // longer waits (e.g. primary limit reset) are not slept through
+  concurrency: number;
+  reserve: number; // low-priority requests stop when x-ratelimit-remaining drops to this
+};
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  concurrency: 4,
+  reserve: 100
+};
+
+// "low" is for nice-to-have calls (baseline expansion) that must leave budget for the PR itself.
+export type RequestPriority = "low" | "normal";
+
+export class RateLimitBudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateLimitBudgetError";
+  }
+}
+
+// A revalidated GET: the ETag and the body it stands for. Saved with the baseline cache
+// entry, so the next run's conditional requests can come back as 304s.
+export type EtagEntry = {
+  key: string;
+  etag: string;
+  data: unknown;
+};
+
+// Keeps the cache entry small; the most recently used responses are kept.
+const MAX_SAVED_ETAGS = 200;
+
+type ClientState = {
+  policy: RequestPolicy;
+  etags: Map<string, { etag: string; data: unknown }>;
+  remaining: number | null;
+  resetAt: number | null; // epoch ms
+  active: number;
+  waiting: (() => void)[];
+};
+
+// Request-layer state lives beside each client so call sites keep passing a plain Octokit.
+const clientStates = new WeakMap<Octokit, ClientState>();
+
+export function makeOctokit(token: string, policy: Partial<RequestPolicy> = {}): Octokit {
+  // Retries and throttling are handled by ghRequest; the bundled plugins would double them.
+  const octokit = new Octokit({
+    auth: token,
+    baseUrl: process.env.GITHUB_API_URL || undefined,
+    retry: { enabled: false },
+    throttle: { enabled: false }
+  });
+  clientStates.set(octokit, {
+    policy: { ...DEFAULT_REQUEST_POLICY, ...policy },
+    etags: new Map(),
+    remaining: null,
+    resetAt: null,
+    active: 0,
+    waiting: []
+  });
+  return octokit;
+}
+
+function stateOf(octokit: Octokit): ClientState {
+  let state = clientStates.get(octokit);
+  if (!state) {
+    state = { policy: DEFAULT_REQUEST_POLICY, etags: new Map(), remaining: null, resetAt: null, active: 0, waiting: [] };
+    clientStates.set(octokit, state);
+  }
+  return state;
+}
+
+export function rateLimitRemaining(octokit: Octokit): number | null {
+  return stateOf(octokit).remaining;
+}
+
+export function exportEtags(octokit: Octokit): EtagEntry[] {
+  const entries = [...stateOf(octokit).etags].map(([key, v]) => ({ key, etag: v.etag, data: v.data }));
+  return entries.slice(-MAX_SAVED_ETAGS);
+}
+
+export function importEtags(octokit: Octokit, entries: EtagEntry[]): void {
+  const { etags } = stateOf(octokit);
+  for (const e of entries) {
+    if (typeof e?.key === "string" && typeof e.etag === "string") etags.set(e.key, { etag: e.etag, data: e.data });
+  }
+}
+
+async function acquire(state: ClientState): Promise<void> {
+  if (state.active < state.policy.concurrency) {
+    state.active += 1;
+    return;
+  }
+  await new Promise<void>((resolve) => state.waiting.push(resolve));
+}
+
+function release(state: ClientState): void {
+  const next = state.waiting.shift();
+  if (next) next();
+  else state.active -= 1;
+}
+
+function trackRateLimit(state: ClientState, headers: Record<string, unknown> | undefined): void {
+  if (!headers) return;
+  const remaining = Number(headers["x-ratelimit-remaining"]);
+  const reset = Number(headers["x-ratelimit-reset"]);
+  if (Number.isFinite(remaining) && headers["x-ratelimit-remaining"] !== undefined) state.remaining = remaining;
+  if (Number.isFinite(reset) && headers["x-ratelimit-reset"] !== undefined) state.resetAt = reset * 1000;
+}
+
+// Returns the wait before the next attempt, or null when the error is not worth retrying.
+function retryDelayMs(state: ClientState, status: number, headers: Record<string, unknown>, message: string, attempt: number): number | null {
+  const { baseDelayMs, maxDelayMs } = state.policy;
+  const retryAfter = Number(headers["retry-after"]);
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt + Math.floor(Math.random() * baseDelayMs));
+
+  if (status === 403) {
+    const primaryExhausted = headers["x-ratelimit-remaining"] === "0";
+    const secondary = /secondary rate limit|abuse/i.test(message);
+    if (!primaryExhausted && !secondary && !headers["retry-after"]) return null; // plain permission error
+    if (Number.isFinite(retryAfter)) return retryAfter * 1000;
+    if (primaryExhausted && state.resetAt !== null) return Math.max(0, state.resetAt - Date.now()) + 1000;
+    return backoff;
+  }
+  if (status === 429) return Number.isFinite(retryAfter) ? retryAfter * 1000 : backoff;
+  if (status >= 500) return backoff;
+  return null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export type GHResponse<T = any> = {
+  status: number;
+  data: T;
+  headers: Record<string, unknown>;
+};
+
+// Shared request layer: bounded concurrency, backoff on 403/429/5xx, ETag revalidation
+// for GETs (304s do not count against the rate limit) and a budget for low-priority calls.
+export async function ghRequest<T = any>(
+  octokit: Octokit,
+  route: string,
+  params: Record<string, unknown>,
+  priority: RequestPriority = "normal"
+): Promise<GHResponse<T>> {
+  const state = stateOf(octokit);
+  const isGet = route.startsWith("GET ");
+  const cacheKey = isGet ? `${route} ${JSON.stringify(params)}` : "";
+
+  await acquire(state);
+  let holding = true;
+  try {
+    for (let attempt = 0; ; attempt++) {
+      if (priority === "low" && state.remaining !== null && state.remaining <= state.policy.reserve) {
+        throw new RateLimitBudgetError(`GitHub API budget reserved (${state.remaining} requests left); skipping ${route}.`);
+      }
+
+      const cached = isGet ? state.etags.get(cacheKey) : undefined;
+      try {
+        const res = await octokit.request(route, {
+          ...params,
+          headers: cached ? { "if-none-match": cached.etag } : undefined
+        });
+        const headers = res.headers as Record<string, unknown>;
+        trackRateLimit(state, headers);
+        if (isGet && typeof headers.etag === "string") {
+          state.etags.delete(cacheKey); // re-insert: most recently used last
+          state.etags.set(cacheKey, { etag: headers.etag, data: res.data });
+        }
+        return { status: res.status, data: res.data as T, headers };
+      } catch (e: any) {
+        const status = Number(e?.status ?? 0);
+        const headers = (e?.response?.headers ?? {}) as Record<string, unknown>;
+        trackRateLimit(state, headers);
+
+        if (status === 304 && cached) {
+          state.etags.delete(cacheKey);
+          state.etags.set(cacheKey, cached);
+          return { status, data: cached.data as T, headers };
+        }
+
+        const delay = retryDelayMs(state, status, headers, String(e?.message ?? ""), attempt);
+        if (delay === null) throw e;
+        if (attempt >= state.policy.maxRetries || delay > state.policy.maxDelayMs) {
+          if (status === 403 || status === 429) {
+            throw new RateLimitBudgetError(`GitHub API rate limit hit on ${route} (HTTP ${status}); giving up after ${attempt + 1} attempts.`);
+          }
+          throw e;
+        }
+        core.info(`GitHub HTTP ${status} on ${route}; retry ${attempt + 1}/${state.policy.maxRetries} in ${Math.round(delay / 1000)}s.`);
+        // The slot is free while waiting, so other requests are not held up by this one's backoff.
+        release(state);
+        holding = false;
+        await sleep(delay);
+        await acquire(state);
+        holding = true;
+      }
+    }
+  } finally {
+    if (holding) release(state);
+  }
 }
 
 export function getContextOrThrow(pullNumberOverride?: number): GHContext {
@@ -32,11 +245,74 @@ export function getContextOrThrow(pullNumberOverride?: number): GHContext {
   // defaultBranch might be on payload.repository
   const defaultBranch = (ctx.payload as any)?.repository?.default_branch || "main";
 
-  return { owner, repo, pullNumber: Number(pullNumber), defaultBranch };
+  // head SHA is only on the payload for pull_request events; dispatch runs resolve it later
+  const fromPayload = pullNumberOverride === undefined;
+  const headSha = fromPayload && pr?.head?.sha ? String(pr.head.sha) : null;
+  const baseSha = fromPayload && pr?.base?.sha ? String(pr.base.sha) : null;
+  const labels = fromPayload && Array.isArray(pr?.labels) ? pr.labels.map((l: any) => String(l?.name ?? l)) : null;
+
+  return { owner, repo, pullNumber: Number(pullNumber), defaultBranch, headSha, baseSha, labels, event: ctx.eventName };
+}
+
+const ZERO_SHA = /^0+$/;
+
+// push and merge_group events carry no PR: the change is base...head (pullNumber 0).
+// A push that creates a branch has no `before`; baseSha is then null.
+export function getPushContext(): GHContext | null {
+  const ctx = github.context;
+  const payload = ctx.payload as any;
+  let baseSha: string | null = null;
+  let headSha: string | null = null;
+  if (ctx.eventName === "push") {
+    baseSha = payload.before ? String(payload.before) : null;
+    headSha = String(payload.after ?? ctx.sha);
+  } else if (ctx.eventName === "merge_group") {
+    baseSha = payload.merge_group?.base_sha ? String(payload.merge_group.base_sha) : null;
+    headSha = payload.merge_group?.head_sha ? String(payload.merge_group.head_sha) : null;
+  } else {
+    return null;
+  }
+  if (!ctx.repo.owner || !ctx.repo.repo || !headSha) return null;
+  return {
+    owner: ctx.repo.owner,
+    repo: ctx.repo.repo,
+    pullNumber: 0,
+    defaultBranch: payload?.repository?.default_branch || "main",
+    headSha,
+    baseSha: baseSha && !ZERO_SHA.test(baseSha) ? baseSha : null,
+    labels: null,
+    event: ctx.eventName
+  };
+}
+
+export async function getCommitParent(octokit: Octokit, owner: string, repo: string, sha: string): Promise<string | null> {
+  const res = await ghRequest(octokit, "GET /repos/{owner}/{repo}/commits/{ref}", { owner, repo, ref: sha });
+  const parent = (res.data.parents ?? [])[0];
+  return parent?.sha ? String(parent.sha) : null;
+}
+
+export type CommitState = "success" | "failure" | "pending" | "error";
+
+// Commit statuses need only `statuses: write`; a required status makes them a merge-queue gate.
+export async function createCommitStatus(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  params: { sha: string; state: CommitState; context: string; description: string; targetUrl?: string }
+): Promise<void> {
+  await ghRequest(octokit, "POST /repos/{owner}/{repo}/statuses/{sha}", {
+    owner,
+    repo,
+    sha: params.sha,
+    state: params.state,
+    context: params.context,
+    description: params.description.slice(0, 140),
+    target_url: params.targetUrl
+  });
 }
 
 export async function getPull(octokit: Octokit, owner: string, repo: string, pullNumber: number) {
-  const res = await octokit.request("GET /repos/{owner}/{repo}/pulls/{pull_number}", {
+  const res = await ghRequest(octokit, "GET /repos/{owner}/{repo}/pulls/{pull_number}", {
     owner,
     repo,
     pull_number: pullNumber
@@ -44,28 +320,49 @@ export async function getPull(octokit: Octokit, owner: string, repo: string, pul
   return res.data;
 }
 
-export async function listPullFiles(octokit: Octokit, owner: string, repo: string, pullNumber: number): Promise<PRFileApi[]> {
+const BINARY_EXT_RE = /\.(png|jpe?g|gif|bmp|ico|webp|pdf|zip|gz|tgz|jar|woff2?|ttf|eot|otf|exe|dll|so|dylib|bin|wasm|mp3|mp4)$/i;
+
+// File entry of the pulls and compare APIs.
+export function toPRFile(it: any): PRFileApi {
+  const additions = Number(it.additions ?? 0);
+  const deletions = Number(it.deletions ?? 0);
+  const status = it.status ? (String(it.status) as FileStatus) : undefined;
+  return {
+    filename: String(it.filename),
+    additions,
+    deletions,
+    status,
+    previousFilename: it.previous_filename ? String(it.previous_filename) : undefined,
+    // Files with line counts are never binary: large text diffs also come without a patch.
+    // Binaries have a binary extension, or no patch and no changes; empty new files
+    // (__init__.py, .gitkeep) look the same, so added files need the extension.
+    binary:
+      additions + deletions === 0 &&
+      (BINARY_EXT_RE.test(String(it.filename)) || (it.patch === undefined && Number(it.changes ?? 0) === 0 && status !== "added"))
+  };
+}
+
+export async function listPullFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  priority: RequestPriority = "normal"
+): Promise<PRFileApi[]> {
   const perPage = 100;
   let page = 1;
   const out: PRFileApi[] = [];
 
   while (true) {
-    const res = await octokit.request("GET /repos/{owner}/{repo}/pulls/{pull_number}/files", {
-      owner,
-      repo,
-      pull_number: pullNumber,
-      per_page: perPage,
-      page
-    });
+    const res = await ghRequest(
+      octokit,
+      "GET /repos/{owner}/{repo}/pulls/{pull_number}/files",
+      { owner, repo, pull_number: pullNumber, per_page: perPage, page },
+      priority
+    );
 
     const items = res.data as any[];
-    for (const it of items) {
-      out.push({
-        filename: String(it.filename),
-        additions: Number(it.additions ?? 0),
-        deletions: Number(it.deletions ?? 0)
-      });
-    }
+    for (const it of items) out.push(toPRFile(it));
     if (items.length < perPage) break;
     page += 1;
   }
@@ -73,15 +370,35 @@ export async function listPullFiles(octokit: Octokit, owner: string, repo: strin
   return out;
 }
 
-export async function listMergedPulls(octokit: Octokit, owner: string, repo: string, n: number): Promise<number[]> {
+export type MergedPull = {
+  number: number;
+  mergedAt: string;
+  title?: string;
+};
+
+export type MergeWindow = {
+  since?: Date; // inclusive
+  until?: Date; // inclusive
+};
+
+// Newest `n` merged PRs, optionally only those merged within `window`.
+export async function listMergedPulls(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  n: number,
+  window: MergeWindow = {}
+): Promise<MergedPull[]> {
   // List closed PRs, filter merged.
   // Note: GitHub API doesn't support merged=true directly for pulls.list; we filter.
   const perPage = 50;
   let page = 1;
-  const mergedNumbers: number[] = [];
+  const mergedNumbers: MergedPull[] = [];
+  const since = window.since?.getTime() ?? -Infinity;
+  const until = window.until?.getTime() ?? Infinity;
 
   while (mergedNumbers.length < n) {
-    const res = await octokit.request("GET /repos/{owner}/{repo}/pulls", {
+    const res = await ghRequest(octokit, "GET /repos/{owner}/{repo}/pulls", {
       owner,
       repo,
       state: "closed",
@@ -94,14 +411,111 @@ export async function listMergedPulls(octokit: Octokit, owner: string, repo: str
     const items = res.data as any[];
     if (items.length === 0) break;
 
+    let pastWindow = false;
     for (const pr of items) {
-      if (pr.merged_at) mergedNumbers.push(Number(pr.number));
+      const mergedAt = pr.merged_at ? Date.parse(pr.merged_at) : NaN;
+      if (pr.merged_at && mergedAt >= since && mergedAt <= until) {
+        mergedNumbers.push({ number: Number(pr.number), mergedAt: String(pr.merged_at), title: pr.title ? String(pr.title) : undefined });
+      }
+      // Sorted by last update, and a PR is merged before its last update: nothing older can follow.
+      if (Date.parse(pr.updated_at) < since) pastWindow = true;
       if (mergedNumbers.length >= n) break;
     }
 
-    if (items.length < perPage) break;
+    if (pastWindow || items.length < perPage) break;
     page += 1;
   }
 
   return mergedNumbers.slice(0, n);
 }
+
+export type CompareCommit = {
+  sha: string;
+  message: string;
+  date: string;
+};
+
+export type Comparison = {
+  commits: CompareCommit[]; // oldest first
+  files: PRFileApi[]; // the API lists at most 300 files
+  filesTruncated: boolean;
+};
+
+// Commits and net file changes of base...head (refs, tags or SHAs).
+export async function compareRefs(octokit: Octokit, owner: string, repo: string, base: string, head: string): Promise<Comparison> {
+  const perPage = 100;
+  let page = 1;
+  const commits: CompareCommit[] = [];
+  let files: PRFileApi[] = [];
+
+  while (true) {
+    const res = await ghRequest(octokit, "GET /repos/{owner}/{repo}/compare/{basehead}", {
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: perPage,
+      page
+    });
+    const items = (res.data.commits ?? []) as any[];
+    for (const c of items) {
+      commits.push({
+        sha: String(c.sha),
+        message: String(c.commit?.message ?? ""),
+        date: String(c.commit?.committer?.date ?? c.commit?.author?.date ?? "")
+      });
+    }
+    if (page === 1) files = ((res.data.files ?? []) as any[]).map(toPRFile);
+    if (items.length < perPage) break;
+    page += 1;
+  }
+
+  return { commits, files, filesTruncated: files.length >= 300 };
+}
+
+export type CheckAnnotation = {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: "notice" | "warning" | "failure";
+  title: string;
+  message: string;
+};
+
+export type CheckRunParams = {
+  name: string;
+  headSha: string;
+  conclusion: "success" | "failure" | "neutral";
+  title: string;
+  summary: string;
+  text?: string;
+  annotations: CheckAnnotation[];
+};
+
+// The checks API accepts at most 50 annotations per request; the rest are appended with PATCH.
+const ANNOTATIONS_PER_REQUEST = 50;
+
+export async function createCheckRun(octokit: Octokit, owner: string, repo: string, params: CheckRunParams): Promise<number> {
+  const { name, headSha, conclusion, title, summary, text, annotations } = params;
+
+  const res = await ghRequest(octokit, "POST /repos/{owner}/{repo}/check-runs", {
+    owner,
+    repo,
+    name,
+    head_sha: headSha,
+    status: "completed",
+    conclusion,
+    output: { title, summary, text, annotations: annotations.slice(0, ANNOTATIONS_PER_REQUEST) }
+  });
+  const checkRunId = Number(res.data.id);
+
+  for (let i = ANNOTATIONS_PER_REQUEST; i < annotations.length; i += ANNOTATIONS_PER_REQUEST) {
+    await ghRequest(octokit, "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}", {
+      owner,
+      repo,
+      check_run_id: checkRunId,
+      output: { title, summary, annotations: annotations.slice(i, i + ANNOTATIONS_PER_REQUEST) }
+    });
+  }
+
+  return checkRunId;
+}
@@ -0,0 +1,181 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { clamp } from "./utils";
+
+// Import graph of the checked-out workspace (TS/JS only). Paths are repo-relative, "/"-separated.
+export type ImportGraph = {
+  files: Set<string>;
+  importers: Map<string, Set<string>>; // file -> files that import it
+};
+
+export type Criticality = {
+  fanIn(p: string): number | null; // null = file not in the graph (not TS/JS, or new)
+  weight(p: string): number | null;
+};
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const SKIP_DIRS = new Set([".git", "node_modules", "dist", "build", "out", "coverage", ".next", ".drift-radar-cache"]);
+const MAX_FILES = 20000;
+
+// A file imported by this many modules counts as core even outside the core globs.
+export const CENTRAL_FAN_IN = 5;
+
+const IMPORT_FROM_RE = /(?:^|[^\w$.])(?:import|export)\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?["']([^"'\n]+)["']/g;
+const CALL_RE = /(?:^|[^\w$.])(?:require|import)\s*\(\s*["']([^"'\n]+)["']\s*\)/g;
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+export function parseImportSpecifiers(source: string): string[] {
+  const out = new Set<string>();
+  for (const re of [IMPORT_FROM_RE, CALL_RE]) {
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(source)) !== null) out.add(m[1]);
+  }
+  return [...out];
+}
+
+type PathsConfig = {
+  baseUrl: string | null; // repo-relative
+  paths: { prefix: string; suffix: string; wildcard: boolean; targets: string[] }[];
+};
+
+// tsconfig.json allows comments and trailing commas.
+function parseJsonc(text: string): any | null {
+  const stripped = text
+    .replace(/("(?:[^"\\]|\\.)*")|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, (_m, str) => str ?? "")
+    .replace(/,(\s*[}\]])/g, "$1");
+  try {
+    return JSON.parse(stripped);
+  } catch {
+    return null;
+  }
+}
+
+function loadPathsConfig(root: string): PathsConfig {
+  const out: PathsConfig = { baseUrl: null, paths: [] };
+  const file = path.join(root, "tsconfig.json");
+  if (!fs.existsSync(file)) return out;
+  const opts = parseJsonc(fs.readFileSync(file, "utf8"))?.compilerOptions;
+  if (!opts) return out;
+
+  const baseUrl = typeof opts.baseUrl === "string" ? toPosix(path.posix.normalize(opts.baseUrl)) : null;
+  out.baseUrl = baseUrl === "." ? "" : baseUrl;
+
+  for (const [pattern, targets] of Object.entries(opts.paths ?? {})) {
+    if (!Array.isArray(targets)) continue;
+    const star = pattern.indexOf("*");
+    out.paths.push({
+      prefix: star >= 0 ? pattern.slice(0, star) : pattern,
+      suffix: star >= 0 ? pattern.slice(star + 1) : "",
+      wildcard: star >= 0,
+      targets: targets.filter((t): t is string => typeof t === "string")
+    });
+  }
+  return out;
+}
+
+function resolveCandidate(files: Set<string>, candidate: string): string | null {
+  const base = path.posix.normalize(candidate).replace(/^\.\//, "");
+  if (files.has(base)) return base;
+  // ESM TypeScript imports "./x.js" for "./x.ts"
+  const noJs = base.replace(/\.(m|c)?jsx?$/, "");
+  for (const stem of noJs === base ? [base] : [noJs, base]) {
+    for (const ext of SOURCE_EXTENSIONS) if (files.has(stem + ext)) return stem + ext;
+  }
+  for (const ext of SOURCE_EXTENSIONS) if (files.has(`${base}/index${ext}`)) return `${base}/index${ext}`;
+  return null;
+}
+
+function resolveSpecifier(files: Set<string>, cfg: PathsConfig, fromFile: string, spec: string): string | null {
+  if (spec.startsWith(".")) {
+    return resolveCandidate(files, path.posix.join(path.posix.dirname(fromFile), spec));
+  }
+
+  for (const p of cfg.paths) {
+    const matches = p.wildcard ? spec.startsWith(p.prefix) && spec.endsWith(p.suffix) : spec === p.prefix;
+    if (!matches) continue;
+    const captured = p.wildcard ? spec.slice(p.prefix.length, spec.length - p.suffix.length) : "";
+    for (const t of p.targets) {
+      const resolved = resolveCandidate(files, path.posix.join(cfg.baseUrl ?? "", t.replace("*", captured)));
+      if (resolved) return resolved;
+    }
+  }
+
+  if (cfg.baseUrl !== null) return resolveCandidate(files, path.posix.join(cfg.baseUrl, spec));
+  return null; // bare package import
+}
+
+function listSourceFiles(root: string, classifier: PathClassifier): string[] {
+  const out: string[] = [];
+  const stack = [""];
+  while (stack.length > 0 && out.length < MAX_FILES) {
+    const rel = stack.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(root, rel), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const e of entries) {
+      const childRel = rel ? `${rel}/${e.name}` : e.name;
+      if (e.isDirectory()) {
+        if (!SKIP_DIRS.has(e.name)) stack.push(childRel);
+      } else if (e.isFile() && SOURCE_EXTENSIONS.includes(path.extname(e.name)) && !e.name.endsWith(".d.ts")) {
+        if (!classifier.generated(childRel)) out.push(childRel);
+      }
+    }
+  }
+  return out;
+}
+
+export function buildImportGraph(root: string, classifier: PathClassifier = DEFAULT_CLASSIFIER): ImportGraph {
+  const list = listSourceFiles(root, classifier);
+  const files = new Set(list);
+  const cfg = loadPathsConfig(root);
+  const importers = new Map<string, Set<string>>();
+
+  for (const file of list) {
+    let source: string;
+    try {
+      source = fs.readFileSync(path.join(root, file), "utf8");
+    } catch {
+      continue;
+    }
+    for (const spec of parseImportSpecifiers(source)) {
+      const target = resolveSpecifier(files, cfg, file, spec);
+      if (!target || target === file) continue;
+      let set = importers.get(target);
+      if (!set) importers.set(target, (set = new Set()));
+      set.add(file);
+    }
+  }
+
+  return { files, importers };
+}
+
+// Leaf files weigh 0.5, a file with one importer 1, then +0.5 per doubling of fan-in (capped at 3).
+export function criticalityWeight(fanIn: number): number {
+  return clamp(0.5, 3, 0.5 + Math.log2(1 + fanIn) / 2);
+}
+
+export function makeCriticality(graph: ImportGraph): Criticality {
+  const fanIn = (p: string) => (graph.files.has(p) ? graph.importers.get(p)?.size ?? 0 : null);
+  return {
+    fanIn,
+    weight: (p) => {
+      const n = fanIn(p);
+      return n === null ? null : criticalityWeight(n);
+    }
+  };
+}
+
+// Null when the workspace has no TS/JS sources (e.g. no checkout step): scoring then falls back to flat core counts.
+export function loadCriticality(root: string, classifier: PathClassifier = DEFAULT_CLASSIFIER): Criticality | null {
+  const graph = buildImportGraph(root, classifier);
+  if (graph.files.size === 0) return null;
+  return makeCriticality(graph);
+}
@@ -0,0 +1,83 @@
+import { AnalyzeResult } from "./analyze";
+
+// Per-push score history carried in the sticky comment itself, as a hidden HTML comment
+// right after the marker tag. Base64 keeps "-->" and newlines out of the payload.
+
+export type PushRecord = {
+  sha: string;
+  score: number;
+  drivers: string[]; // driver keys active on that push
+  at: string;
+};
+
+export type CommentState = {
+  version: 1;
+  pushes: PushRecord[]; // oldest first
+};
+
+export type PushComparison = {
+  previous: PushRecord;
+  delta: number;
+  appeared: string[];
+  resolved: string[];
+};
+
+export type PushHistory = {
+  pushes: PushRecord[]; // including the current push, oldest first
+  sinceLastPush: PushComparison | null; // null on the first analyzed push
+};
+
+const STATE_RE = /<!--\s*drift-radar-state:([A-Za-z0-9+/=]+)\s*-->/;
+const MAX_PUSHES = 20;
+
+export function emptyCommentState(): CommentState {
+  return { version: 1, pushes: [] };
+}
+
+// Unreadable or foreign state starts a fresh history rather than failing the run.
+export function parseCommentState(body: string | null | undefined): CommentState {
+  const m = body ? STATE_RE.exec(body) : null;
+  if (!m) return emptyCommentState();
+  try {
+    const parsed = JSON.parse(Buffer.from(m[1], "base64").toString("utf8"));
+    if (parsed?.version !== 1 || !Array.isArray(parsed.pushes)) return emptyCommentState();
+    const pushes = parsed.pushes.filter(
+      (p: any): p is PushRecord => typeof p?.sha === "string" && typeof p?.score === "number" && Array.isArray(p?.drivers)
+    );
+    return { version: 1, pushes };
+  } catch {
+    return emptyCommentState();
+  }
+}
+
+// Oldest pushes are dropped until the state fits in `maxChars`, its share of the comment.
+export function serializeCommentState(state: CommentState, maxChars = Infinity): string {
+  for (let pushes = state.pushes; ; pushes = pushes.slice(1)) {
+    const payload = Buffer.from(JSON.stringify({ version: 1, pushes }), "utf8").toString("base64");
+    const text = `<!-- drift-radar-state:${payload} -->`;
+    if (text.length <= maxChars || pushes.length === 0) return text;
+  }
+}
+
+// Re-runs on the same head commit replace that push instead of adding a new one.
+export function recordPush(state: CommentState, sha: string, result: AnalyzeResult, now: Date = new Date()): CommentState {
+  const push: PushRecord = { sha, score: result.scores.score, drivers: result.drivers.map((d) => d.key), at: now.toISOString() };
+  const pushes = state.pushes.filter((p) => !sha || p.sha !== sha);
+  return { version: 1, pushes: [...pushes, push].slice(-MAX_PUSHES) };
+}
+
+export function comparePushes(previous: PushRecord, current: PushRecord): PushComparison {
+  return {
+    previous,
+    delta: current.score - previous.score,
+    appeared: current.drivers.filter((k) => !previous.drivers.includes(k)),
+    resolved: previous.drivers.filter((k) => !current.drivers.includes(k))
+  };
+}
+
+export function pushHistory(state: CommentState): PushHistory {
+  const { pushes } = state;
+  const current = pushes[pushes.length - 1];
+  const previous = pushes.length >= 2 ? pushes[pushes.length - 2] : null;
+  return { pushes, sinceLastPush: current && previous ? comparePushes(previous, current) : null };
+}
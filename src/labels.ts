@@ -0,0 +1,108 @@
+import { Octokit } from "octokit";
+import * as core from "@actions/core";
+import { AnalyzeResult, knownDriverKeys } from "./analyze";
+import { LabelsConfig, LabelSpec, RuleConfig } from "./config";
+import { ghRequest } from "./github";
+import { verdictOf } from "./report";
+
+// Opt-in PR labels: one per verdict tier plus one per notable active driver, so the PR
+// list can be filtered and routed by risk. Only labels named in the config are managed.
+
+export function checkLabelDrivers(config: LabelsConfig, rules: RuleConfig[] = []): void {
+  const known = knownDriverKeys(rules);
+  for (const key of Object.keys(config.drivers)) {
+    if (!known.includes(key)) {
+      throw new Error(`Config labels.drivers has unknown driver "${key}". Known drivers: ${known.join(", ")}.`);
+    }
+  }
+}
+
+export function managedLabels(config: LabelsConfig): LabelSpec[] {
+  const all = [...Object.values(config.tiers), ...Object.values(config.drivers)].filter((l): l is LabelSpec => l !== null);
+  return [...new Map(all.map((l) => [l.name.toLowerCase(), l])).values()];
+}
+
+export function desiredLabels(result: AnalyzeResult, config: LabelsConfig): LabelSpec[] {
+  const tier = config.tiers[verdictOf(result.scores.verdictEmoji)];
+  const out = tier ? [tier] : [];
+  for (const d of result.drivers) {
+    const spec = config.drivers[d.key];
+    if (spec && !out.some((l) => l.name.toLowerCase() === spec.name.toLowerCase())) out.push(spec);
+  }
+  return out;
+}
+
+export async function listIssueLabels(octokit: Octokit, owner: string, repo: string, issueNumber: number): Promise<string[]> {
+  const res = await ghRequest(octokit, "GET /repos/{owner}/{repo}/issues/{issue_number}/labels", {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100
+  });
+  return (res.data as any[]).map((l) => String(l.name));
+}
+
+export function hasLabel(labels: string[], name: string | null): boolean {
+  return name !== null && labels.some((l) => l.toLowerCase() === name.toLowerCase());
+}
+
+async function ensureRepoLabel(octokit: Octokit, owner: string, repo: string, spec: LabelSpec): Promise<void> {
+  try {
+    await ghRequest(octokit, "GET /repos/{owner}/{repo}/labels/{name}", { owner, repo, name: spec.name });
+  } catch (e: any) {
+    if (Number(e?.status) !== 404) throw e;
+    await ghRequest(octokit, "POST /repos/{owner}/{repo}/labels", {
+      owner,
+      repo,
+      name: spec.name,
+      color: spec.color,
+      description: spec.description.slice(0, 100)
+    });
+    core.info(`Created label '${spec.name}'.`);
+  }
+}
+
+// Adds the desired labels (creating missing ones) and removes managed labels that no longer
+// apply. Failures (e.g. missing `issues: write`) are logged, never fatal.
+export async function syncLabels(params: {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  result: AnalyzeResult;
+  config: LabelsConfig;
+}): Promise<{ added: string[]; removed: string[] }> {
+  const { octokit, owner, repo, issueNumber, result, config } = params;
+  const desired = desiredLabels(result, config);
+  const added: string[] = [];
+  const removed: string[] = [];
+
+  try {
+    const current = await listIssueLabels(octokit, owner, repo, issueNumber);
+    const stale = managedLabels(config).filter((l) => hasLabel(current, l.name) && !hasLabel(desired.map((d) => d.name), l.name));
+    const missing = desired.filter((l) => !hasLabel(current, l.name));
+
+    for (const spec of missing) await ensureRepoLabel(octokit, owner, repo, spec);
+    if (missing.length > 0) {
+      await ghRequest(octokit, "POST /repos/{owner}/{repo}/issues/{issue_number}/labels", {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        labels: missing.map((l) => l.name)
+      });
+      added.push(...missing.map((l) => l.name));
+    }
+    for (const spec of stale) {
+      await ghRequest(octokit, "DELETE /repos/{owner}/{repo}/issues/{issue_number}/labels/{name}", {
+        owner,
+        repo,
+        issue_number: issueNumber,
+        name: current.find((c) => c.toLowerCase() === spec.name.toLowerCase()) ?? spec.name
+      });
+      removed.push(spec.name);
+    }
+  } catch (e: any) {
+    core.info(`Unable to update PR labels (non-fatal). ${e?.message ?? String(e)}`);
+  }
+  return { added, removed };
+}
@@ -1,55 +1,110 @@
 import * as core from "@actions/core";
-import { makeOctokit, getContextOrThrow, listPullFiles } from "./github";
-import { analyze } from "./analyze";
-import { computeBaseline, loadBaselineFromCache, saveBaselineToCache } from "./baseline";
-import { upsertSingleComment } from "./comment";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  makeOctokit,
+  getContextOrThrow,
+  getPushContext,
+  listPullFiles,
+  getPull,
+  createCheckRun,
+  compareRefs,
+  getCommitParent,
+  createCommitStatus
+} from "./github";
+import { analyze, EMPTY_HEAT, hotspotFiles, PRFile, scoringNotes, splitScore } from "./analyze";
+import {
+  baselineAgeDays,
+  computeBaseline,
+  emptyBaseline,
+  baselineModel,
+  formatBaselineAge,
+  loadBaselineFromCache,
+  PathSignals,
+  pathSignalsKey,
+  rescoreBaseline,
+  saveBaselineToCache
+} from "./baseline";
+import { ExistingComment, findSingleComment, upsertSingleComment } from "./comment";
+import { buildClassifier, DEFAULT_CONFIG_PATH, loadConfig } from "./config";
+import { buildReport, resolveReportPath, setReportOutputs, writeJobSummary, writeReportFile } from "./report";
+import { buildFileAnnotations, evaluateGate, parseGateOptions } from "./gate";
+import { loadCriticality } from "./graph";
+import { loadCodeowners } from "./owners";
+import { ApiDiff, computeApiDiff, describeApiChange } from "./api";
+import { ensureRevision, gitReader } from "./git";
+import { computeDepsDiff, DepsDiff, describeDepsDiff } from "./deps";
+import { describeMissingCoChange, findMissingCoChanges } from "./coupling";
+import { analyzePackages, countTouchedPackages, resolvePackages } from "./workspaces";
+import { buildComment, buildCommentFromTemplate, CommentParams, GITHUB_COMMENT_LIMIT, MAX_COMMENT_CHARS } from "./render";
 import { formatSigned } from "./utils";
+import { projectWhatIfs, suggestSplit } from "./split";
+import { buildReleaseDrift, collectReleaseChanges, defaultReleaseBase, publishToRelease, releaseMarkdown } from "./release";
+import { buildDigest, collectMergedPRs, digestCsv, digestMarkdown, parseReportDate } from "./digest";
+import { checkLabelDrivers, hasLabel, listIssueLabels, syncLabels } from "./labels";
+import { parseCommentState, pushHistory, recordPush, serializeCommentState } from "./history";
+import { buildProfile, describeModel, modelKey, scoringModel } from "./profile";
 
-function buildComment(params: {
-  score: number;
-  emoji: string;
-  trendText: string;
-  reviewMinutes: number;
-  drivers: string[];
-  actions: string[];
-}): string {
-  const { score, emoji, trendText, reviewMinutes, drivers, actions } = params;
-
-  const title = "Drift Radar — Structural Risk Signal";
-  const line = `Score: ${score}/100 ${emoji}   Trend: ${trendText}   Review Load: ~${reviewMinutes} min`;
-
-  const driversBlock =
-    "Main risk drivers:\n" +
-    drivers.map((d) => `• ${d}`).join("\n");
-
-  const actionsBlock =
-    "Suggested actions:\n" +
-    actions.map((a) => `• ${a}`).join("\n");
+// Report and release modes write their files here (default $RUNNER_TEMP/drift-radar).
+function resolveReportDir(input: string): string {
+  const dir = path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), input || path.join(process.env.RUNNER_TEMP || ".", "drift-radar"));
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
 
-  return `${title}\n\n${line}\n\n${driversBlock}\n\n${actionsBlock}`;
+async function writeMarkdownSummary(markdown: string): Promise<void> {
+  try {
+    await core.summary.addRaw(markdown, true).write();
+  } catch (e: any) {
+    core.info(`Unable to write job summary (non-fatal): ${e?.message ?? String(e)}`);
+  }
 }
 
 async function run(): Promise<void> {
   const token = core.getInput("github-token", { required: true });
   const mode = core.getInput("mode") || "analyze";
   const historyN = Number(core.getInput("history-prs") || "20");
+  const baselineMaxAgeDays = Number(core.getInput("baseline-max-age-days") || "7");
   const tag = core.getInput("comment-tag") || "<!-- drift-radar -->";
   const pullOverrideStr = (core.getInput("pull-number") || "").trim();
   const pullOverride = pullOverrideStr ? Number(pullOverrideStr) : undefined;
+  const configPath = core.getInput("config-path") || DEFAULT_CONFIG_PATH;
+  const commentTemplate = (core.getInput("comment-template") || "").trim();
+  const reportPathInput = (core.getInput("report-path") || "").trim();
+  const jobSummary = (core.getInput("job-summary") || "true").trim().toLowerCase() !== "false";
+  const checkRun = (core.getInput("check-run") || "false").trim().toLowerCase() === "true";
+  const checkName = core.getInput("check-name") || "Drift Radar";
+  const commitStatus = (core.getInput("commit-status") || "false").trim().toLowerCase() === "true";
 
-  const octokit = makeOctokit(token);
+  // Invalid config is a hard error: silently falling back would mis-score every PR.
+  const config = loadConfig(configPath);
+  const classifier = buildClassifier(config.classification);
+  if (config.labels.enabled) checkLabelDrivers(config.labels, config.rules);
+  const gateOptions = parseGateOptions(core.getInput("fail-above") || "", core.getInput("fail-on-drivers") || "", config.rules);
+  const profile = buildProfile(config.scoring);
+  core.info(`Scoring model: ${describeModel(profile)}.`);
+  const importGraph = (core.getInput("import-graph") || "true").trim().toLowerCase() !== "false";
 
-  // Context: require PR unless refresh-baseline
+  const octokit = makeOctokit(token, {
+    concurrency: Math.max(1, Number(core.getInput("api-concurrency") || "4")),
+    reserve: Math.max(0, Number(core.getInput("rate-limit-reserve") || "100"))
+  });
+
+  // Context: require PR unless push/merge_group, refresh-baseline, report or release
   let ctx: ReturnType<typeof getContextOrThrow> | null = null;
   try {
     ctx = getContextOrThrow(pullOverride);
   } catch (e: any) {
-    if (mode === "refresh-baseline") {
-      // baseline refresh without PR context is allowed
+    const pushCtx = mode === "analyze" && !pullOverride ? getPushContext() : null;
+    if (pushCtx) {
+      ctx = pushCtx;
+    } else if (mode === "refresh-baseline" || mode === "report" || mode === "release") {
+      // baseline refresh and repository/release reports without PR context are allowed
       const owner = require("@actions/github").context.repo.owner;
       const repo = require("@actions/github").context.repo.repo;
       const defaultBranch = (require("@actions/github").context.payload as any)?.repository?.default_branch || "main";
-      ctx = { owner, repo, pullNumber: 0, defaultBranch };
+      const event = require("@actions/github").context.eventName;
+      ctx = { owner, repo, pullNumber: 0, defaultBranch, headSha: null, baseSha: null, labels: null, event };
     } else {
       throw e;
     }
@@ -59,79 +114,391 @@ async function run(): Promise<void> {
 
   const { owner, repo, pullNumber, defaultBranch } = ctx;
 
+  // Monorepo mode reads workspace definitions from the checkout as well
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const packages = resolvePackages(workspace, config.monorepo);
+  if (packages.length > 0) core.info(`Monorepo mode: ${packages.length} packages (${packages.map((p) => p.dir).join(", ")}).`);
+
+  // Import-graph criticality needs the repository checked out (actions/checkout)
+  const criticality = importGraph ? loadCriticality(workspace, classifier) : null;
+  core.info(criticality ? "Import graph built from workspace." : "No import graph (no TS/JS sources in workspace); using flat core counts.");
+
+  // Repository-wide modes score past PRs with the CODEOWNERS of the checkout.
+  const checkoutSignals = (): PathSignals => {
+    const codeowners = loadCodeowners(gitReader(workspace, "HEAD"));
+    core.info(codeowners ? `Code owners from ${codeowners.source} (${codeowners.rules.length} rules).` : "No CODEOWNERS file in the checkout; ownership spread not scored.");
+    return { codeowners, packages };
+  };
+
   if (mode === "refresh-baseline") {
     core.info(`Mode: refresh-baseline (historyN=${historyN})`);
-    const baseline = await computeBaseline(octokit, owner, repo, historyN);
-    await saveBaselineToCache(defaultBranch, baseline);
-    core.info(`Baseline refreshed. median=${baseline.baselineMedianScore ?? "n/a"} hotspots=${baseline.hotspotFiles.length}`);
+    const previous = await loadBaselineFromCache(defaultBranch, octokit);
+    const baseline = await computeBaseline(octokit, owner, repo, historyN, classifier, previous, criticality, profile, checkoutSignals());
+    await saveBaselineToCache(defaultBranch, baseline, octokit);
+    core.info(`Baseline refreshed. median=${baseline.baselineMedianScore ?? "n/a"} hotspots=${hotspotFiles(baseline.heat).length} coupling=${baseline.coupling.length}`);
+    return;
+  }
+
+  if (mode === "report") {
+    const since = parseReportDate(core.getInput("report-since") || "", "report-since");
+    const until = parseReportDate(core.getInput("report-until") || "", "report-until", true);
+    const n = Number(core.getInput("report-prs") || (since || until ? "1000" : "100"));
+    core.info(`Mode: report (${since || until ? `merged ${since?.toISOString() ?? "…"} to ${until?.toISOString() ?? "now"}, ` : ""}up to ${n} PRs)`);
+    // Files of PRs in the cached baseline are reused instead of refetched.
+    const cached = await loadBaselineFromCache(defaultBranch, octokit);
+    const { prs, missing } = await collectMergedPRs(octokit, owner, repo, n, { since, until }, classifier, criticality, cached?.prs ?? [], profile, checkoutSignals());
+    const digest = buildDigest({ repository: `${owner}/${repo}`, prs, window: { since, until }, requested: since || until ? null : n, missing, profile });
+    const markdown = digestMarkdown(digest);
+
+    const dir = resolveReportDir(core.getInput("report-dir") || "");
+    const outputs = {
+      "report-path": path.join(dir, "drift-report.json"),
+      "report-markdown": path.join(dir, "drift-report.md"),
+      "report-csv": path.join(dir, "drift-report.csv")
+    };
+    fs.writeFileSync(outputs["report-path"], JSON.stringify(digest, null, 2), "utf8");
+    fs.writeFileSync(outputs["report-markdown"], markdown + "\n", "utf8");
+    fs.writeFileSync(outputs["report-csv"], digestCsv(digest), "utf8");
+    for (const [name, file] of Object.entries(outputs)) core.setOutput(name, file);
+    if (jobSummary) await writeMarkdownSummary(markdown);
+    core.info(`Report written to ${dir}: ${prs.length} PRs, median ${digest.medianScore ?? "n/a"}.`);
+    return;
+  }
+
+  if (mode === "release") {
+    const payload = require("@actions/github").context.payload as any;
+    const head = (core.getInput("release-head") || "").trim() || payload?.release?.tag_name || process.env.GITHUB_SHA || defaultBranch;
+    const base = (core.getInput("release-base") || "").trim() || (await defaultReleaseBase(octokit, owner, repo, head));
+    if (!base) throw new Error("No earlier release or tag found; set input 'release-base'.");
+    core.info(`Mode: release (${base}...${head})`);
+
+    const cached = await loadBaselineFromCache(defaultBranch, octokit);
+    const signals = checkoutSignals();
+    const changes = await collectReleaseChanges(octokit, owner, repo, base, head, classifier, criticality, cached?.prs ?? [], profile, signals);
+    const drift = buildReleaseDrift({
+      repository: `${owner}/${repo}`,
+      base,
+      head,
+      commits: changes.commits,
+      prs: changes.prs,
+      netFiles: changes.netFiles,
+      filesTruncated: changes.filesTruncated,
+      heat: cached?.heat ?? EMPTY_HEAT,
+      classifier,
+      criticality,
+      missing: changes.missing,
+      profile,
+      signals
+    });
+    const markdown = releaseMarkdown(drift);
+
+    const dir = resolveReportDir(core.getInput("report-dir") || "");
+    const outputs = { "report-path": path.join(dir, "release-drift.json"), "report-markdown": path.join(dir, "release-drift.md") };
+    fs.writeFileSync(outputs["report-path"], JSON.stringify(drift, null, 2), "utf8");
+    fs.writeFileSync(outputs["report-markdown"], markdown + "\n", "utf8");
+    for (const [name, file] of Object.entries(outputs)) core.setOutput(name, file);
+    core.setOutput("release-readiness", drift.readiness);
+    if (jobSummary) await writeMarkdownSummary(markdown);
+
+    if ((core.getInput("release-body") || "false").trim().toLowerCase() === "true") {
+      try {
+        const done = await publishToRelease(octokit, owner, repo, head, markdown);
+        core.info(done ? `Release drift added to the release for '${head}'.` : `No release for '${head}'; release body not updated.`);
+      } catch (e: any) {
+        core.info(`Unable to update the release body (non-fatal). ${e?.message ?? String(e)}`);
+      }
+    }
+    core.info(`Release drift: ${drift.prs.length} PRs, total ${drift.totalScore}, peak ${drift.peak?.score ?? "n/a"}, readiness ${drift.readiness}.`);
     return;
   }
 
-  // mode analyze: needs PR number
-  if (!pullNumber || pullNumber <= 0) {
+  // mode analyze: needs a PR number, or a push/merge_group head commit
+  const isPull = pullNumber > 0;
+  if (!isPull && !ctx.headSha) {
     core.info("No pull request number available. For workflow_dispatch, provide input 'pull-number'.");
     return;
   }
 
-  // Load baseline from cache first; fallback to compute if missing
-  let baseline = await loadBaselineFromCache(defaultBranch);
-  if (!baseline || baseline.historyN !== historyN) {
-    core.info(`Baseline cache miss or N changed; computing baseline from GitHub (historyN=${historyN}).`);
+  // Skip label: checked before any baseline work, so skipped PRs cost one API call at most.
+  const skipLabel = config.labels.skip;
+  if (skipLabel && isPull) {
+    let prLabels = ctx.labels;
+    if (prLabels === null) {
+      try {
+        prLabels = await listIssueLabels(octokit, owner, repo, pullNumber);
+      } catch (e: any) {
+        core.info(`Unable to read PR labels (non-fatal). ${e?.message ?? String(e)}`);
+        prLabels = [];
+      }
+    }
+    if (hasLabel(prLabels, skipLabel)) {
+      core.info(`PR #${pullNumber} has the '${skipLabel}' label; analysis skipped.`);
+      core.setOutput("skipped", "true");
+      return;
+    }
+  }
+
+  // A push that creates a branch has no `before`: compare against the head's parent.
+  if (!isPull && !ctx.baseSha && ctx.headSha) {
+    try {
+      ctx.baseSha = await getCommitParent(octokit, owner, repo, ctx.headSha);
+    } catch (e: any) {
+      core.info(`Unable to resolve the parent of ${ctx.headSha} (non-fatal). ${e?.message ?? String(e)}`);
+    }
+  }
+  if (!isPull && !ctx.baseSha) {
+    core.info(`No base commit for ${ctx.event} ${ctx.headSha}; nothing to compare.`);
+    return;
+  }
+
+  // Dispatch runs carry no PR payload: resolve both SHAs from the API once.
+  if (isPull && (!ctx.headSha || !ctx.baseSha)) {
     try {
-      baseline = await computeBaseline(octokit, owner, repo, historyN);
-      await saveBaselineToCache(defaultBranch, baseline);
+      const pull = await getPull(octokit, owner, repo, pullNumber);
+      ctx.headSha = ctx.headSha ?? String(pull.head.sha);
+      ctx.baseSha = ctx.baseSha ?? String(pull.base.sha);
+    } catch (e: any) {
+      core.info(`Unable to read PR head/base (non-fatal). ${e?.message ?? String(e)}`);
+    }
+  }
+
+  // Ownership spread reads CODEOWNERS at the base commit, as GitHub does, not from the PR head;
+  // baseline PRs are scored with the same rules and packages.
+  const codeowners = ctx.baseSha && ensureRevision(workspace, ctx.baseSha) ? loadCodeowners(gitReader(workspace, ctx.baseSha)) : null;
+  core.info(
+    codeowners
+      ? `Code owners from ${codeowners.source} at ${ctx.baseSha!.slice(0, 7)} (${codeowners.rules.length} rules).`
+      : "No CODEOWNERS file at the base commit; ownership spread not scored."
+  );
+
+  const signals: PathSignals = { codeowners, packages };
+
+  // Load baseline from cache first; recompute if missing, stale or N changed
+  let baseline = await loadBaselineFromCache(defaultBranch, octokit);
+  const cachedAge = baseline ? baselineAgeDays(baseline) : Infinity;
+  const cachedPartial = (baseline?.missingPRs ?? 0) > 0;
+  if (!baseline || baseline.historyN !== historyN || cachedAge > baselineMaxAgeDays || cachedPartial) {
+    const why = !baseline
+      ? "cache miss"
+      : baseline.historyN !== historyN
+        ? "N changed"
+        : cachedPartial
+          ? "partial"
+          : `stale (${formatBaselineAge(cachedAge)} > ${baselineMaxAgeDays}d)`;
+    core.info(`Baseline ${why}; ${baseline ? "refreshing" : "computing"} baseline from GitHub (historyN=${historyN}).`);
+    try {
+      baseline = await computeBaseline(octokit, owner, repo, historyN, classifier, baseline, criticality, profile, signals);
+      await saveBaselineToCache(defaultBranch, baseline, octokit);
     } catch (e: any) {
       core.info(`Unable to compute baseline history (non-fatal): ${e?.message ?? String(e)}`);
-      baseline = {
-        computedAt: new Date().toISOString(),
-        historyN,
-        baselineMedianScore: null,
-        hotspotFiles: []
-      };
+      baseline = baseline ?? emptyBaseline(historyN);
     }
   }
+  // Scored under another profile (or an older version of it), or with other CODEOWNERS rules
+  // or packages: rescore the recorded PRs.
+  const modelChanged = modelKey(baselineModel(baseline)) !== modelKey(scoringModel(profile));
+  if (baseline.prs.length > 0 && (modelChanged || baseline.signals !== pathSignalsKey(signals))) {
+    core.info(
+      modelChanged
+        ? `Baseline scored with ${modelKey(baselineModel(baseline))}; rescoring with ${modelKey(scoringModel(profile))}.`
+        : "Baseline scored with other CODEOWNERS rules or packages; rescoring."
+    );
+    baseline = rescoreBaseline(baseline, classifier, criticality, profile, signals);
+    await saveBaselineToCache(defaultBranch, baseline, octokit);
+  }
+  core.info(`Baseline age: ${formatBaselineAge(baselineAgeDays(baseline))} (computed ${baseline.computedAt}, historyN=${baseline.historyN}).`);
 
-  const hotspotSet = new Set<string>(baseline.hotspotFiles || []);
+  const heat = baseline.heat ?? EMPTY_HEAT;
 
-  // PR files
-  let files;
+  // PR files, or the compared range for push/merge_group runs
+  let files: PRFile[];
   try {
-    files = await listPullFiles(octokit, owner, repo, pullNumber);
+    if (isPull) {
+      files = await listPullFiles(octokit, owner, repo, pullNumber);
+    } else {
+      const comparison = await compareRefs(octokit, owner, repo, ctx.baseSha!, ctx.headSha!);
+      if (comparison.filesTruncated) core.info("Compared range has more files than the API returns; scoring the first 300.");
+      files = comparison.files;
+    }
   } catch (e: any) {
-    core.info(`Unable to read PR files. ${e?.message ?? String(e)}`);
+    core.info(`Unable to read ${isPull ? "PR files" : "compared files"}. ${e?.message ?? String(e)}`);
     return;
   }
 
-  const res = analyze(files, hotspotSet);
+  let api: ApiDiff | null = null;
+  let deps: DepsDiff | null = null;
+  if (ctx.baseSha && ctx.headSha) {
+    const haveHead = ensureRevision(workspace, ctx.headSha);
+    if (config.api.enabled) {
+      if (haveHead) {
+        api = computeApiDiff(workspace, ctx.baseSha, ctx.headSha, files.map((f) => f.filename), config.api.entryPoints);
+      }
+      if (!api) core.info("API surface check skipped: base/head commits not available in the checkout.");
+    }
+    if (haveHead) deps = computeDepsDiff(workspace, ctx.baseSha, ctx.headSha, files, classifier);
+    if (!deps) core.info("Dependency diff skipped: base/head commits not available; deps files scored by count.");
+  }
+
+  const coChanges = findMissingCoChanges(files, baseline.coupling ?? []);
+  const analyzeOptions = { classifier, criticality, api, deps, coChanges, profile, rules: config.rules, codeowners };
+  const res = analyze(files, heat, { ...analyzeOptions, packagesTouched: countTouchedPackages(files, packages, analyzeOptions) });
+  const perPackage = packages.length > 0 ? analyzePackages(files, packages, heat, analyzeOptions, baseline.prs) : [];
+  const splitContext = { rules: baseline.coupling ?? [], packages };
+  const split = res.scores.score >= splitScore(profile.thresholds) ? suggestSplit(files, heat, analyzeOptions, splitContext) : [];
+  const whatIfs = projectWhatIfs(files, res, heat, analyzeOptions, splitContext);
 
   const baselineScore = baseline.baselineMedianScore;
-  const trendText = baselineScore === null ? "n/a" : formatSigned(res.scores.score - Math.round(baselineScore));
+  const trendDelta = baselineScore === null ? null : res.scores.score - Math.round(baselineScore);
+  const trendText = trendDelta === null ? "n/a" : formatSigned(trendDelta);
 
   // drivers labels already neutral
   const drivers = res.driversTop3.map((d) => d.label);
 
-  // Permission-limited note (only if baseline missing)
-  // Product constraint: keep comment clean, but we can reflect Trend: n/a already.
+  // Baseline context (median, history size, age, partial) is rendered by buildComment itself.
+  const notes = scoringNotes(res.counts);
+  const depsNote = deps ? describeDepsDiff(deps) : null;
+  if (depsNote) notes.unshift(`Dependencies: ${depsNote}`);
+  if (res.missingCoChanges.length > 0) {
+    notes.unshift(`Usually changed together but not touched: ${res.missingCoChanges.slice(0, 5).map(describeMissingCoChange).join(", ")}`);
+  }
+  if (res.apiChanges.length > 0) {
+    notes.unshift(`API surface: ${res.apiChanges.map(describeApiChange).join(", ")}`);
+  }
+  if (res.centralFiles.length > 0) {
+    notes.unshift(`Most central files touched: ${res.centralFiles.map((c) => `${c.path} (imported by ${c.fanIn})`).join(", ")}`);
+  }
+  core.info(`Score=${res.scores.score} Trend=${trendText} Review=${res.scores.reviewMinutes}m Drivers=${drivers.join(" | ")}`);
+
+  // Gating is opt-in: without `check-run` or `commit-status` the action stays advisory-only.
+  const reportGate = async (headSha: string | null): Promise<void> => {
+    if (!checkRun && !commitStatus) return;
+    const decision = evaluateGate(res, gateOptions);
+    core.setOutput("gate-conclusion", decision.conclusion);
+    // Without the check or status, branch protection cannot enforce the decision; fail the job instead.
+    const unreported = (msg: string) => {
+      if (decision.conclusion === "failure") throw new Error(`${msg} Gate failed: ${decision.reasons.join("; ")}`);
+      core.warning(msg);
+    };
+    if (!headSha) return unreported("Unable to resolve the head commit for the gate result.");
+
+    if (checkRun) {
+      try {
+        const annotations = buildFileAnnotations(files, res, heat, classifier, criticality);
+        await createCheckRun(octokit, owner, repo, {
+          name: checkName,
+          headSha,
+          conclusion: decision.conclusion,
+          title: decision.title,
+          summary: [
+            `Score: ${res.scores.score}/100 ${res.scores.verdictEmoji}   Trend: ${trendText}`,
+            ...decision.reasons.map((r) => `- ${r}`),
+            "",
+            `Main risk drivers: ${drivers.join(", ") || "none"}`
+          ].join("\n"),
+          annotations
+        });
+        core.info(`Check run '${checkName}' created: ${decision.conclusion} (${annotations.length} annotations).`);
+      } catch (e: any) {
+        unreported(`Unable to create check run (needs 'checks: write'). ${e?.message ?? String(e)}`);
+      }
+    }
+
+    if (commitStatus) {
+      // Statuses have no neutral state: advisory runs report success.
+      const state = decision.conclusion === "failure" ? "failure" : "success";
+      try {
+        await createCommitStatus(octokit, owner, repo, { sha: headSha, state, context: checkName, description: decision.title });
+        core.info(`Commit status '${checkName}' set: ${state}.`);
+      } catch (e: any) {
+        unreported(`Unable to set commit status (needs 'statuses: write'). ${e?.message ?? String(e)}`);
+      }
+    }
+  };
 
-  const body = buildComment({
-    score: res.scores.score,
-    emoji: res.scores.verdictEmoji,
+  // push/merge_group runs have no PR to comment on: outputs, summary and statuses only.
+  if (!isPull) {
+    const commitRange = { base: ctx.baseSha, head: ctx.headSha! };
+    const report = buildReport({ owner, repo, pullNumber, event: ctx.event, commitRange, result: res, baseline, trendDelta, trendText, packages: perPackage, split, whatIfs });
+    const reportPath = resolveReportPath(reportPathInput);
+    setReportOutputs(report, writeReportFile(report, reportPath) ? reportPath : null);
+    if (jobSummary) await writeJobSummary(report);
+    await reportGate(ctx.headSha);
+    return;
+  }
+
+  // Per-push history lives in the sticky comment; re-runs on the same head replace their entry.
+  // A failed lookup is not "no comment yet": posting then would leave a second comment and
+  // restart the history, so the comment is left alone for this run.
+  let existingComment: ExistingComment | null = null;
+  let commentLookupFailed = false;
+  try {
+    existingComment = await findSingleComment({ octokit, owner, repo, issueNumber: pullNumber, tag });
+  } catch (e: any) {
+    commentLookupFailed = true;
+    core.info(`Unable to list PR comments; comment not updated (non-fatal). ${e?.message ?? String(e)}`);
+  }
+  const state = recordPush(parseCommentState(existingComment?.body), ctx.headSha ?? "", res);
+  const history = pushHistory(state);
+
+  const commentParams: CommentParams = {
+    result: res,
+    files,
     trendText,
-    reviewMinutes: res.scores.reviewMinutes,
-    drivers,
-    actions: res.suggestedActions
-  });
+    baseline,
+    heat,
+    classifier,
+    criticality,
+    packages: perPackage,
+    notes,
+    history,
+    split,
+    whatIfs,
+    profile
+  };
+  let body = buildComment(commentParams);
+  if (commentTemplate) {
+    // A broken template must not cost the PR its comment: warn and keep the built-in one.
+    try {
+      const text = fs.readFileSync(path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), commentTemplate), "utf8");
+      body = buildCommentFromTemplate(text, commentParams);
+    } catch (e: any) {
+      core.warning(`Comment template '${commentTemplate}' not used (${e?.message ?? String(e)}); posting the default comment.`);
+    }
+  }
 
-  core.info(`Score=${res.scores.score} Trend=${trendText} Review=${res.scores.reviewMinutes}m Drivers=${drivers.join(" | ")}`);
+  const report = buildReport({ owner, repo, pullNumber, result: res, baseline, trendDelta, trendText, packages: perPackage, history, split, whatIfs });
+  const reportPath = resolveReportPath(reportPathInput);
+  setReportOutputs(report, writeReportFile(report, reportPath) ? reportPath : null);
+  if (jobSummary) await writeJobSummary(report);
 
-  await upsertSingleComment({
-    octokit,
-    owner,
-    repo,
-    issueNumber: pullNumber,
-    body,
-    tag
-  });
+  if (!commentLookupFailed) {
+    await upsertSingleComment({
+      octokit,
+      owner,
+      repo,
+      issueNumber: pullNumber,
+      body: `${serializeCommentState(state, GITHUB_COMMENT_LIMIT - MAX_COMMENT_CHARS - tag.trim().length - 3)}\n${body}`,
+      tag,
+      existing: existingComment
+    });
+  }
+
+  if (config.labels.enabled) {
+    const { added, removed } = await syncLabels({ octokit, owner, repo, issueNumber: pullNumber, result: res, config: config.labels });
+    if (added.length > 0 || removed.length > 0) {
+      core.info(`Labels: added ${added.join(", ") || "none"}; removed ${removed.join(", ") || "none"}.`);
+    }
+  }
+
+  let headSha = ctx.headSha;
+  if (!headSha && (checkRun || commitStatus)) {
+    try {
+      headSha = String((await getPull(octokit, owner, repo, pullNumber)).head.sha);
+    } catch (e: any) {
+      core.info(`Unable to read PR head (non-fatal). ${e?.message ?? String(e)}`);
+    }
+  }
+  await reportGate(headSha);
 }
 
 run().catch((err) => {
@@ -0,0 +1,122 @@
+import type { PRFile } from "./analyze";
+import { FileReader } from "./git";
+
+// CODEOWNERS: maps each changed file to the owners GitHub would request a review from.
+// Patterns follow GitHub's rules (gitignore-like, case-sensitive, no negation); the last
+// matching line wins, and a matching line without owners leaves the file unowned.
+
+export type OwnerRule = {
+  pattern: string;
+  owners: string[]; // @user, @org/team or email; empty = explicitly unowned
+  re: RegExp;
+};
+
+export type Codeowners = {
+  source: string; // repository-relative path of the file used
+  rules: OwnerRule[];
+};
+
+export type OwnerGroup = {
+  owners: string[]; // one review request covers the group
+  files: string[];
+};
+
+export type Ownership = {
+  source: string;
+  groups: OwnerGroup[]; // most files first
+  unowned: string[]; // changed files no rule assigns an owner to
+};
+
+// GitHub uses the first file found, in this order.
+export const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+function escapeRe(ch: string): string {
+  return ch.replace(/[.+^${}()|[\]\\*?]/g, "\\$&");
+}
+
+// A slash at the start or in the middle anchors the pattern at the root; otherwise it matches
+// at any depth. A match on a directory covers everything below it, except for a trailing
+// "/*", which GitHub limits to the directory's direct children.
+export function codeownersRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  const p = pattern.replace(/^\//, "").replace(/\/$/, "");
+  const childrenOnly = /(^|\/)\*$/.test(p) && p !== "*";
+
+  let re = "";
+  for (let i = 0; i < p.length; i++) {
+    const ch = p[i];
+    if (ch === "*" && p[i + 1] === "*") {
+      if (p[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "\\" && i + 1 < p.length) {
+      re += escapeRe(p[++i]);
+    } else {
+      re += escapeRe(ch);
+    }
+  }
+  const prefix = anchored ? "^" : "^(?:.*/)?";
+  const suffix = childrenOnly ? "$" : pattern.endsWith("/") ? "/.*$" : "(?:/.*)?$";
+  return new RegExp(prefix + re + suffix);
+}
+
+// Comments, blank lines and lines GitHub ignores (negation, character ranges) are skipped.
+export function parseCodeowners(text: string): OwnerRule[] {
+  const rules: OwnerRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    if (pattern.startsWith("!") || pattern.includes("[")) continue;
+    rules.push({ pattern, owners, re: codeownersRegExp(pattern) });
+  }
+  return rules;
+}
+
+// GitHub takes code owners from the base branch, so callers read the file at the base
+// commit: a PR cannot narrow its own ownership spread by editing CODEOWNERS.
+// Null when there is no CODEOWNERS file in a standard location.
+export function loadCodeowners(read: FileReader): Codeowners | null {
+  for (const rel of CODEOWNERS_PATHS) {
+    const text = read(rel);
+    if (text !== null) return { source: rel, rules: parseCodeowners(text) };
+  }
+  return null;
+}
+
+export function ownersOf(codeowners: Codeowners, p: string): string[] {
+  for (let i = codeowners.rules.length - 1; i >= 0; i--) {
+    if (codeowners.rules[i].re.test(p)) return codeowners.rules[i].owners;
+  }
+  return [];
+}
+
+// Files sharing the same owner set form one group: one review request covers them.
+export function resolveOwnership(files: PRFile[], codeowners: Codeowners): Ownership {
+  const groups = new Map<string, OwnerGroup>();
+  const unowned: string[] = [];
+  for (const f of files) {
+    const owners = ownersOf(codeowners, f.filename);
+    if (owners.length === 0) {
+      unowned.push(f.filename);
+      continue;
+    }
+    const key = [...owners].sort().join(" ").toLowerCase();
+    const group = groups.get(key) ?? { owners, files: [] };
+    group.files.push(f.filename);
+    groups.set(key, group);
+  }
+  return {
+    source: codeowners.source,
+    groups: [...groups.values()].sort((a, b) => b.files.length - a.files.length || a.owners.join().localeCompare(b.owners.join())),
+    unowned
+  };
+}
@@ -0,0 +1,206 @@
+import { createHash } from "crypto";
+
+// Scoring profiles: every weight, amplifier, cap and cut-off of the score and review-load
+// model. Built-in profiles are versioned; bump a profile's version whenever its numbers
+// change, so baselines scored under the old numbers are recomputed instead of compared.
+
+export const SUB_SCORES = ["S_size", "S_quality", "S_deps", "S_infra", "S_hot", "S_api", "S_cochange", "S_spread", "S_owners"] as const;
+
+export type SubScoreKey = (typeof SUB_SCORES)[number];
+
+export type Amplifiers = {
+  coreNoTests: number; // times the most central core file's weight (0.5–2)
+  depsInfra: number;
+  depsCore: number;
+  hotspots: number; // two or more hotspots touched
+  spread: number; // three or more packages touched
+  cap: number;
+};
+
+// Verdict tiers: score <= low is 🟢, <= moderate is 🟡, above is 🔴.
+export type Thresholds = {
+  low: number;
+  moderate: number;
+};
+
+// Review load = (sqrt(lines) + perFile·files + perRename·renames) / unitsPerMinute, times one
+// multiplier per category (core, infra, deps and hotspots add, tests take off), clamped.
+export type ReviewModel = {
+  perFile: number;
+  perRename: number;
+  unitsPerMinute: number;
+  core: number;
+  infra: number;
+  deps: number;
+  hotspots: number;
+  tests: number;
+  min: number;
+  max: number;
+};
+
+export const PROFILE_NAMES = ["default", "strict", "lenient"] as const;
+
+export type ProfileName = (typeof PROFILE_NAMES)[number];
+
+export type ScoringProfile = {
+  id: string; // a built-in name, or "custom-<digest>" for config overrides
+  base: ProfileName;
+  version: number;
+  weights: Record<SubScoreKey, number>; // weight of each sub-score in the base score
+  amplifiers: Amplifiers;
+  docsOnlyCap: number;
+  thresholds: Thresholds;
+  review: ReviewModel;
+};
+
+// Stamped into the comment, the JSON results and the cached baseline.
+export type ScoringModel = {
+  id: string;
+  version: number;
+};
+
+const DEFAULT_REVIEW: ReviewModel = {
+  perFile: 2,
+  perRename: 0.2,
+  unitsPerMinute: 12,
+  core: 0.15,
+  infra: 0.2,
+  deps: 0.25,
+  hotspots: 0.1,
+  tests: 0.1,
+  min: 5,
+  max: 90
+};
+
+// v1 used verdict cut-offs at 39/69; v2 uses the documented 30/60 tiers; v3 adds S_owners.
+export const DEFAULT_PROFILE: ScoringProfile = {
+  id: "default",
+  base: "default",
+  version: 3,
+  weights: {
+    S_size: 0.35,
+    S_quality: 0.2,
+    S_deps: 0.2,
+    S_infra: 0.15,
+    S_hot: 0.1,
+    S_api: 0.15,
+    S_cochange: 0.1,
+    S_spread: 0.15,
+    S_owners: 0.1
+  },
+  amplifiers: { coreNoTests: 0.15, depsInfra: 0.1, depsCore: 0.1, hotspots: 0.05, spread: 0.05, cap: 1.4 },
+  docsOnlyCap: 25,
+  thresholds: { low: 30, moderate: 60 },
+  review: DEFAULT_REVIEW
+};
+
+// For critical repositories: test gaps, dependencies and API changes weigh more, tiers start lower.
+const STRICT_PROFILE: ScoringProfile = {
+  id: "strict",
+  base: "strict",
+  version: 2,
+  weights: {
+    S_size: 0.35,
+    S_quality: 0.3,
+    S_deps: 0.25,
+    S_infra: 0.2,
+    S_hot: 0.15,
+    S_api: 0.2,
+    S_cochange: 0.15,
+    S_spread: 0.2,
+    S_owners: 0.15
+  },
+  amplifiers: { coreNoTests: 0.2, depsInfra: 0.15, depsCore: 0.15, hotspots: 0.1, spread: 0.1, cap: 1.6 },
+  docsOnlyCap: 25,
+  thresholds: { low: 25, moderate: 50 },
+  review: { ...DEFAULT_REVIEW, unitsPerMinute: 10 }
+};
+
+// For fast-moving or prototype repositories: size dominates, tiers start higher.
+const LENIENT_PROFILE: ScoringProfile = {
+  id: "lenient",
+  base: "lenient",
+  version: 2,
+  weights: {
+    S_size: 0.3,
+    S_quality: 0.15,
+    S_deps: 0.15,
+    S_infra: 0.1,
+    S_hot: 0.05,
+    S_api: 0.1,
+    S_cochange: 0.05,
+    S_spread: 0.1,
+    S_owners: 0.05
+  },
+  amplifiers: { coreNoTests: 0.1, depsInfra: 0.05, depsCore: 0.05, hotspots: 0.05, spread: 0.05, cap: 1.25 },
+  docsOnlyCap: 20,
+  thresholds: { low: 40, moderate: 70 },
+  review: DEFAULT_REVIEW
+};
+
+export const BUILTIN_PROFILES: Record<ProfileName, ScoringProfile> = {
+  default: DEFAULT_PROFILE,
+  strict: STRICT_PROFILE,
+  lenient: LENIENT_PROFILE
+};
+
+// The `scoring` config section: a built-in profile plus optional overrides.
+export type ScoringConfig = {
+  profile: ProfileName;
+  weights: Partial<Record<SubScoreKey, number>>;
+  amplifiers: Partial<Amplifiers>;
+  docsOnlyCap: number | null;
+  thresholds: Partial<Thresholds>;
+  review: Partial<ReviewModel>;
+};
+
+export const DEFAULT_SCORING: ScoringConfig = {
+  profile: "default",
+  weights: {},
+  amplifiers: {},
+  docsOnlyCap: null,
+  thresholds: {},
+  review: {}
+};
+
+// Overrides make a custom profile whose id is a digest of the resulting numbers, so any
+// change to them is a different model (and recomputes the baseline).
+export function buildProfile(config: ScoringConfig): ScoringProfile {
+  const base = BUILTIN_PROFILES[config.profile];
+  const overridden =
+    Object.keys(config.weights).length > 0 ||
+    Object.keys(config.amplifiers).length > 0 ||
+    config.docsOnlyCap !== null ||
+    Object.keys(config.thresholds).length > 0 ||
+    Object.keys(config.review).length > 0;
+  if (!overridden) return base;
+
+  const numbers = {
+    weights: { ...base.weights, ...config.weights },
+    amplifiers: { ...base.amplifiers, ...config.amplifiers },
+    docsOnlyCap: config.docsOnlyCap ?? base.docsOnlyCap,
+    thresholds: { ...base.thresholds, ...config.thresholds },
+    review: { ...base.review, ...config.review }
+  };
+  const digest = createHash("sha256").update(JSON.stringify({ base: base.id, version: base.version, ...numbers })).digest("hex");
+  return { id: `custom-${digest.slice(0, 8)}`, base: base.base, version: base.version, ...numbers };
+}
+
+export function scoringModel(profile: ScoringProfile): ScoringModel {
+  return { id: profile.id, version: profile.version };
+}
+
+// "default v2", "custom-1a2b3c4d v1 (strict with overrides)"
+export function describeModel(profile: ScoringProfile): string {
+  const custom = profile.id !== profile.base ? ` (${profile.base} with overrides)` : "";
+  return `${profile.id} v${profile.version}${custom}`;
+}
+
+// Cache key of a model: baselines scored under another key are rescored.
+export function modelKey(model: ScoringModel): string {
+  return `${model.id}@${model.version}`;
+}
+
+export function verdictEmojiFor(score: number, thresholds: Thresholds): "🟢" | "🟡" | "🔴" {
+  return score <= thresholds.low ? "🟢" : score <= thresholds.moderate ? "🟡" : "🔴";
+}
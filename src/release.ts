@@ -0,0 +1,294 @@
+import * as core from "@actions/core";
+import { Octokit } from "octokit";
+import { analyze, AnalyzeResult, HeatMap, isHotspotFile, PRFile } from "./analyze";
+import { BaselinePR, NO_PATH_SIGNALS, PathSignals } from "./baseline";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { DigestPR, scoreMergedPR } from "./digest";
+import { CompareCommit, compareRefs, ghRequest, listPullFiles, RateLimitBudgetError } from "./github";
+import { Criticality } from "./graph";
+import { DEFAULT_PROFILE, ScoringModel, ScoringProfile, Thresholds } from "./profile";
+import { countTouchedPackages } from "./workspaces";
+import { median } from "./utils";
+
+// Cumulative drift between two refs (mode: release): the PRs merged between them, each
+// scored like the baseline, plus the net diff scored as one change.
+
+export type Readiness = "ready" | "review" | "hold";
+
+export type ReleaseDrift = {
+  generatedAt: string;
+  repository: string;
+  model: ScoringModel;
+  base: string;
+  head: string;
+  commits: number;
+  source: "pull-requests" | "compare"; // compare = no PR found in the range, net diff only
+  prs: DigestPR[]; // merge order, oldest first
+  totalScore: number; // sum of PR scores
+  peak: DigestPR | null;
+  medianScore: number | null;
+  highRiskPRs: number;
+  infraPRs: number;
+  depsPRs: number;
+  coreWithoutTestsPRs: number;
+  net: { files: number; lines: number; score: number; drivers: string[]; filesTruncated: boolean };
+  hotspotsTouched: string[]; // baseline hotspots changed in the range
+  churnedFiles: { path: string; prs: number }[]; // files changed by several PRs of the range
+  readiness: Readiness;
+  reasons: string[];
+  missingPRs: number;
+};
+
+const READINESS_EMOJI: Record<Readiness, string> = { ready: "🟢", review: "🟡", hold: "🔴" };
+const READINESS_TEXT: Record<Readiness, string> = {
+  ready: "Ready to release",
+  review: "Ready after a focused review of the flagged changes",
+  hold: "Hold: review the risky changes before releasing"
+};
+const MAX_LISTED = 10;
+
+// "Merge pull request #12 from …" and squash merges "Title (#12)".
+export function pullNumbersFromCommits(commits: CompareCommit[]): { number: number; commit: CompareCommit }[] {
+  const seen = new Set<number>();
+  const out: { number: number; commit: CompareCommit }[] = [];
+  for (const c of commits) {
+    const subject = c.message.split("\n")[0];
+    const m = /^Merge pull request #(\d+)/.exec(subject) ?? /\(#(\d+)\)\s*$/.exec(subject);
+    if (!m) continue;
+    const n = Number(m[1]);
+    if (seen.has(n)) continue;
+    seen.add(n);
+    out.push({ number: n, commit: c });
+  }
+  return out;
+}
+
+function commitTitle(c: CompareCommit): string {
+  const lines = c.message.split("\n");
+  // merge commits carry the PR title on the first non-empty line after the subject
+  if (/^Merge pull request #\d+/.test(lines[0])) return lines.slice(1).find((l) => l.trim() !== "")?.trim() ?? lines[0];
+  return lines[0].replace(/\s*\(#\d+\)\s*$/, "");
+}
+
+// Previous published release before `head` (by position in the releases list), else the latest tag.
+export async function defaultReleaseBase(octokit: Octokit, owner: string, repo: string, head: string): Promise<string | null> {
+  const releases = (await ghRequest(octokit, "GET /repos/{owner}/{repo}/releases", { owner, repo, per_page: 30 })).data as any[];
+  const published = releases.filter((r) => !r.draft && !r.prerelease).map((r) => String(r.tag_name));
+  const i = published.indexOf(head);
+  const candidate = i >= 0 ? published[i + 1] : published[0];
+  if (candidate) return candidate;
+  const tags = (await ghRequest(octokit, "GET /repos/{owner}/{repo}/tags", { owner, repo, per_page: 2 })).data as any[];
+  const names = tags.map((t) => String(t.name)).filter((t) => t !== head);
+  return names[0] ?? null;
+}
+
+export async function collectReleaseChanges(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null,
+  known: BaselinePR[] = [],
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  signals: PathSignals = NO_PATH_SIGNALS
+): Promise<{ commits: number; prs: DigestPR[]; netFiles: PRFile[]; filesTruncated: boolean; missing: number }> {
+  const comparison = await compareRefs(octokit, owner, repo, base, head);
+  const cached = new Map(known.map((r) => [r.number, r.files]));
+  const numbers = pullNumbersFromCommits(comparison.commits);
+
+  const results = await Promise.allSettled(
+    numbers.map(async ({ number, commit }) => ({
+      number,
+      commit,
+      files: cached.get(number) ?? (await listPullFiles(octokit, owner, repo, number, "low"))
+    }))
+  );
+  const prs: DigestPR[] = [];
+  let missing = 0;
+  for (const [i, r] of results.entries()) {
+    if (r.status === "rejected") {
+      if (!(r.reason instanceof RateLimitBudgetError)) {
+        core.info(`Unable to read files of PR #${numbers[i].number} (skipped). ${r.reason?.message ?? String(r.reason)}`);
+      }
+      missing += 1;
+      continue;
+    }
+    const { number, commit, files } = r.value;
+    prs.push(scoreMergedPR(number, commitTitle(commit), commit.date, files, classifier, criticality, profile, signals));
+  }
+  if (missing > 0) core.warning(`Release drift is partial: ${missing} of ${numbers.length} PRs skipped (API rate limit or errors).`);
+  if (comparison.filesTruncated) core.warning("The compare API lists at most 300 files; the net diff score covers those only.");
+  return { commits: comparison.commits.length, prs, netFiles: comparison.files, filesTruncated: comparison.filesTruncated, missing };
+}
+
+// The net score asks for a review from the profile's 🔴 tier on.
+function readinessOf(d: Omit<ReleaseDrift, "readiness" | "reasons">, thresholds: Thresholds): { readiness: Readiness; reasons: string[] } {
+  const hold: string[] = [];
+  const review: string[] = [];
+  if (d.highRiskPRs >= 2) hold.push(`${d.highRiskPRs} high-risk PRs`);
+  else if (d.highRiskPRs === 1) review.push(`1 high-risk PR (#${d.peak?.number})`);
+  if (d.coreWithoutTestsPRs >= 3) hold.push(`${d.coreWithoutTestsPRs} PRs changed core code without tests`);
+  else if (d.coreWithoutTestsPRs > 0) review.push(`${d.coreWithoutTestsPRs} PR(s) changed core code without tests`);
+  if (d.net.score >= 85) hold.push(`net change scores ${d.net.score}`);
+  else if (d.net.score > thresholds.moderate) review.push(`net change scores ${d.net.score}`);
+  if (d.infraPRs > 0 && d.depsPRs > 0) review.push(`infra/config changes (${d.infraPRs} PR(s)) together with dependency changes (${d.depsPRs} PR(s))`);
+  if (d.hotspotsTouched.length >= 3) review.push(`${d.hotspotsTouched.length} hotspot files changed`);
+  if (hold.length > 0) return { readiness: "hold", reasons: [...hold, ...review] };
+  if (review.length > 0) return { readiness: "review", reasons: review };
+  return { readiness: "ready", reasons: [] };
+}
+
+export function buildReleaseDrift(params: {
+  repository: string;
+  base: string;
+  head: string;
+  commits: number;
+  prs: DigestPR[];
+  netFiles: PRFile[];
+  filesTruncated?: boolean;
+  heat: HeatMap;
+  classifier?: PathClassifier;
+  criticality?: Criticality | null;
+  missing?: number;
+  profile?: ScoringProfile;
+  signals?: PathSignals;
+  now?: Date;
+}): ReleaseDrift {
+  const {
+    repository,
+    base,
+    head,
+    commits,
+    netFiles,
+    heat,
+    classifier = DEFAULT_CLASSIFIER,
+    criticality = null,
+    missing = 0,
+    profile = DEFAULT_PROFILE,
+    signals = NO_PATH_SIGNALS,
+    now = new Date()
+  } = params;
+  const prs = [...params.prs].sort((a, b) => Date.parse(a.mergedAt) - Date.parse(b.mergedAt));
+  const has = (key: string) => prs.filter((p) => p.driverKeys.includes(key)).length;
+
+  const netOptions = { classifier, criticality, profile, codeowners: signals.codeowners };
+  const net: AnalyzeResult = analyze(netFiles, heat, { ...netOptions, packagesTouched: countTouchedPackages(netFiles, signals.packages, netOptions) });
+  const fileCounts = new Map<string, number>();
+  for (const p of prs) for (const path of new Set(p.paths)) fileCounts.set(path, (fileCounts.get(path) ?? 0) + 1);
+
+  const partial = {
+    generatedAt: now.toISOString(),
+    repository,
+    model: net.model,
+    base,
+    head,
+    commits,
+    source: prs.length > 0 ? ("pull-requests" as const) : ("compare" as const),
+    prs,
+    totalScore: prs.reduce((s, p) => s + p.score, 0),
+    peak: prs.reduce<DigestPR | null>((best, p) => (!best || p.score > best.score ? p : best), null),
+    medianScore: median(prs.map((p) => p.score)),
+    highRiskPRs: prs.filter((p) => p.verdict === "high").length,
+    infraPRs: has("Infra/config touched"),
+    depsPRs: has("Dependency churn"),
+    coreWithoutTestsPRs: has("Core changed without tests"),
+    net: {
+      files: net.counts.F,
+      lines: net.counts.L,
+      score: net.scores.score,
+      drivers: net.driversTop3.map((d) => d.label),
+      filesTruncated: params.filesTruncated ?? false
+    },
+    hotspotsTouched: netFiles.filter((f) => isHotspotFile(f, heat)).map((f) => f.filename),
+    churnedFiles: [...fileCounts.entries()]
+      .filter(([, n]) => n >= 2)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_LISTED)
+      .map(([path, n]) => ({ path, prs: n })),
+    missingPRs: missing
+  };
+  return { ...partial, ...readinessOf(partial, profile.thresholds) };
+}
+
+function cell(s: string): string {
+  return s.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+export function releaseMarkdown(d: ReleaseDrift): string {
+  const parts = [
+    `### Drift Radar — release drift \`${d.base}\` → \`${d.head}\``,
+    `**${READINESS_EMOJI[d.readiness]} ${READINESS_TEXT[d.readiness]}**` + (d.reasons.length ? `\n\n${d.reasons.map((r) => `- ${r}`).join("\n")}` : "")
+  ];
+
+  const median = d.medianScore === null ? "n/a" : String(Math.round(d.medianScore));
+  const summary = [
+    "| | |",
+    "|---|---:|",
+    `| Commits | ${d.commits} |`,
+    `| Merged PRs | ${d.prs.length} |`,
+    `| Total score (sum over PRs) | ${d.totalScore} |`,
+    `| Peak PR | ${d.peak ? `#${d.peak.number} (${d.peak.score})` : "—"} |`,
+    `| Median PR score | ${median} |`,
+    `| High-risk PRs | ${d.highRiskPRs} |`,
+    `| Core changed without tests | ${d.coreWithoutTestsPRs} |`,
+    `| Dependency PRs | ${d.depsPRs} |`,
+    `| Infra/config PRs | ${d.infraPRs} |`,
+    `| Net change | ${d.net.files} files, ${d.net.lines} lines, score ${d.net.score}${d.net.filesTruncated ? " (first 300 files)" : ""} |`
+  ];
+  parts.push(summary.join("\n"));
+  if (d.source === "compare") parts.push("_No merged PRs found in the commit range; figures come from the net diff only._");
+
+  if (d.prs.length > 0) {
+    const risky = [...d.prs].sort((a, b) => b.score - a.score).slice(0, MAX_LISTED);
+    parts.push(
+      "**Riskiest PRs**\n\n" +
+        [
+          "| PR | Score | Drivers |",
+          "|---|---:|---|",
+          ...risky.map((p) => `| #${p.number} ${cell(p.title)} | ${p.score} ${p.verdictEmoji} | ${cell(p.drivers.map((x) => x.label).join(", ") || "—")} |`)
+        ].join("\n")
+    );
+  }
+  if (d.hotspotsTouched.length > 0) {
+    const shown = d.hotspotsTouched.slice(0, MAX_LISTED).map((p) => `\`${p}\``).join(", ");
+    parts.push(`**Hotspots touched:** ${shown}${d.hotspotsTouched.length > MAX_LISTED ? ` (+${d.hotspotsTouched.length - MAX_LISTED} more)` : ""}`);
+  }
+  if (d.churnedFiles.length > 0) {
+    parts.push(`**Changed by several PRs:** ${d.churnedFiles.map((f) => `\`${f.path}\` (${f.prs})`).join(", ")}`);
+  }
+  if (d.missingPRs > 0) parts.push(`_Partial: ${d.missingPRs} PR(s) skipped (API rate limit or errors)._`);
+  parts.push(`_Scoring model: ${d.model.id} v${d.model.version}_`);
+  return parts.join("\n\n");
+}
+
+const SECTION_START = "<!-- drift-radar-release -->";
+const SECTION_END = "<!-- /drift-radar-release -->";
+
+// Replaces the Drift Radar section of a release body, or appends one; the rest is kept.
+export function withReleaseSection(body: string, markdown: string): string {
+  const section = `${SECTION_START}\n${markdown}\n${SECTION_END}`;
+  const start = body.indexOf(SECTION_START);
+  const end = body.indexOf(SECTION_END);
+  if (start >= 0 && end > start) return body.slice(0, start) + section + body.slice(end + SECTION_END.length);
+  return body.trim() === "" ? section : `${body.trimEnd()}\n\n${section}`;
+}
+
+// Needs `contents: write`. Returns false when there is no release for the tag.
+export async function publishToRelease(octokit: Octokit, owner: string, repo: string, tag: string, markdown: string): Promise<boolean> {
+  let release: any;
+  try {
+    release = (await ghRequest(octokit, "GET /repos/{owner}/{repo}/releases/tags/{tag}", { owner, repo, tag })).data;
+  } catch (e: any) {
+    if (Number(e?.status) === 404) return false;
+    throw e;
+  }
+  await ghRequest(octokit, "PATCH /repos/{owner}/{repo}/releases/{release_id}", {
+    owner,
+    repo,
+    release_id: release.id,
+    body: withReleaseSection(String(release.body ?? ""), markdown)
+  });
+  return true;
+}
@@ -0,0 +1,405 @@
+import {
+  AnalyzeResult,
+  classifyFiles,
+  computeScores,
+  EMPTY_HEAT,
+  fileHeat,
+  HeatMap,
+  HOT_HEAT,
+  isExcludedFile,
+  isPureRename,
+  PRFile
+} from "./analyze";
+import { BaselineData, baselineAgeDays, formatBaselineAge } from "./baseline";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { CENTRAL_FAN_IN, Criticality } from "./graph";
+import { formatSigned } from "./utils";
+import { PackageAnalysis } from "./workspaces";
+import { PushHistory } from "./history";
+import { describeWhatIf, SplitGroup, WhatIf } from "./split";
+import { compileTemplate, renderTemplate, TemplateError, TemplateSchema, validateTemplate } from "./template";
+import { verdictOf } from "./report";
+import { DEFAULT_PROFILE, ScoringProfile, SUB_SCORES, SubScoreKey } from "./profile";
+import { Ownership } from "./owners";
+
+// Markdown PR comment. Everything beyond the verdict, drivers and actions sits in tables or
+// collapsed <details> so the comment stays short on screen and complete on demand.
+
+export type CommentParams = {
+  result: AnalyzeResult;
+  files: PRFile[];
+  trendText: string;
+  baseline: BaselineData;
+  heat: HeatMap;
+  classifier?: PathClassifier;
+  criticality?: Criticality | null;
+  packages?: PackageAnalysis[];
+  notes?: string[];
+  history?: PushHistory | null;
+  split?: SplitGroup[];
+  whatIfs?: WhatIf[];
+  profile?: ScoringProfile; // weights shown in the score breakdown
+};
+
+// GitHub rejects comment bodies above 65536 characters. The visible comment gets at most
+// MAX_COMMENT_CHARS; the rest is left for the marker tag and the hidden push history.
+export const GITHUB_COMMENT_LIMIT = 65536;
+export const MAX_COMMENT_CHARS = 56000;
+const FILE_LIST_CAPS = [50, 20, 5, 0];
+const HISTORY_ROWS = 10;
+
+const SUB_SCORE_LABELS: Record<SubScoreKey, string> = {
+  S_size: "Size",
+  S_quality: "Test quality",
+  S_deps: "Dependencies",
+  S_infra: "Infra/config",
+  S_hot: "Hotspots",
+  S_api: "Public API",
+  S_cochange: "Missing co-change",
+  S_spread: "Cross-package spread",
+  S_owners: "Ownership spread"
+};
+
+// Always shown; the other sub-scores only when they contribute.
+const CORE_SUB_SCORES: SubScoreKey[] = ["S_size", "S_quality", "S_deps", "S_infra", "S_hot"];
+
+const BADGE_COLORS = { "🟢": "brightgreen", "🟡": "yellow", "🔴": "red" } as const;
+
+type FileCategory = { title: string; files: string[] };
+
+function fmt(n: number): string {
+  return String(Math.round(n * 10) / 10);
+}
+
+function code(p: string): string {
+  return `\`${p.replace(/`/g, "'")}\``;
+}
+
+function cell(s: string): string {
+  return s.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+export function badge(score: number, emoji: keyof typeof BADGE_COLORS): string {
+  return `![Drift score ${score}/100](https://img.shields.io/badge/drift%20score-${score}%2F100-${BADGE_COLORS[emoji]})`;
+}
+
+// Same rules as classifyFiles, listed per file. A file can appear in several categories.
+export function categorizeFiles(
+  files: PRFile[],
+  heat: HeatMap,
+  classifier: PathClassifier = DEFAULT_CLASSIFIER,
+  criticality: Criticality | null = null
+): FileCategory[] {
+  const cats: Record<string, string[]> = {
+    Core: [],
+    Tests: [],
+    Dependencies: [],
+    "Infra/config": [],
+    Docs: [],
+    Hotspots: [],
+    Other: [],
+    "Renamed, scored as moves": [],
+    "Excluded: generated, vendored, binary": []
+  };
+
+  for (const f of files) {
+    const p = f.filename;
+    if (isPureRename(f)) {
+      cats["Renamed, scored as moves"].push(f.previousFilename ? `${f.previousFilename} → ${p}` : p);
+      continue;
+    }
+    if (isExcludedFile(f, classifier)) {
+      cats["Excluded: generated, vendored, binary"].push(p);
+      continue;
+    }
+    const fanIn = criticality?.fanIn(p) ?? null;
+    const hits: string[] = [];
+    if (classifier.core(p) || (fanIn !== null && fanIn >= CENTRAL_FAN_IN)) hits.push("Core");
+    if (classifier.tests(p)) hits.push("Tests");
+    if (classifier.deps(p)) hits.push("Dependencies");
+    if (classifier.infra(p)) hits.push("Infra/config");
+    if (classifier.docs(p)) hits.push("Docs");
+    if (fileHeat(f, heat) >= HOT_HEAT) hits.push("Hotspots");
+    for (const h of hits.length ? hits : ["Other"]) cats[h].push(p);
+  }
+
+  return Object.entries(cats)
+    .filter(([, list]) => list.length > 0)
+    .map(([title, list]) => ({ title, files: list }));
+}
+
+function subScoreTable(result: AnalyzeResult, profile: ScoringProfile): string {
+  const { scores } = result;
+  const weights = profile.weights;
+  const keys = SUB_SCORES.filter((k) => CORE_SUB_SCORES.includes(k) || scores[k] > 0);
+  const rows = keys.map(
+    (k) => `| ${SUB_SCORE_LABELS[k]} (\`${k}\`) | ${fmt(scores[k])} | ×${weights[k]} | ${fmt(weights[k] * scores[k])} |`
+  );
+  return [
+    "| Component | Value | Weight | Weighted |",
+    "|---|---:|---:|---:|",
+    ...rows,
+    `| **Base** | | | **${fmt(scores.base)}** |`,
+    `| **Amplification** | | | **×${fmt(scores.amp)}** |`,
+    `| **Score** | | | **${scores.score}** |`
+  ].join("\n");
+}
+
+function packageTable(packages: PackageAnalysis[]): string {
+  const rows = packages.map((p) => {
+    const { score, verdictEmoji } = p.result.scores;
+    const trend = p.baselineMedianScore === null ? "n/a" : formatSigned(score - Math.round(p.baselineMedianScore));
+    const driver = p.result.driversTop3[0]?.label ?? "—";
+    return `| ${cell(p.name)} | ${score} ${verdictEmoji} | ${trend} | ${p.files} | ${p.result.counts.H}/${p.hotspots} | ${cell(driver)} |`;
+  });
+  return ["| Package | Score | Trend | Files | Hotspots | Main driver |", "|---|---:|---:|---:|---:|---|", ...rows].join("\n");
+}
+
+// One row per owner set: each row is one review request.
+function ownersTable(ownership: Ownership): string {
+  const rows = ownership.groups.map((g) => {
+    const shown = g.files.slice(0, 3).map(code).join(", ") + (g.files.length > 3 ? ` +${g.files.length - 3} more` : "");
+    return `| ${cell(g.owners.join(" "))} | ${g.files.length} | ${cell(shown)} |`;
+  });
+  const table = rows.length > 0 ? ["| Owners | Files | Examples |", "|---|---:|---|", ...rows].join("\n") : "";
+  const unowned =
+    ownership.unowned.length > 0
+      ? `_No owner in ${code(ownership.source)}:_ ` +
+        ownership.unowned.slice(0, 10).map(code).join(", ") +
+        (ownership.unowned.length > 10 ? ` +${ownership.unowned.length - 10} more` : "")
+      : "";
+  return assemble([table, unowned]);
+}
+
+function shortSha(sha: string): string {
+  return sha ? code(sha.slice(0, 7)) : "—";
+}
+
+function sinceLastPushLine(history: PushHistory): string {
+  const since = history.sinceLastPush;
+  if (!since) return "";
+  const current = history.pushes[history.pushes.length - 1];
+  const parts = [
+    since.delta === 0 ? `unchanged (${current.score})` : `${formatSigned(since.delta)} (${since.previous.score} → ${current.score})`
+  ];
+  if (since.appeared.length > 0) parts.push(`new: ${since.appeared.join(", ")}`);
+  if (since.resolved.length > 0) parts.push(`resolved: ${since.resolved.join(", ")}`);
+  return `**Since last push** (${shortSha(since.previous.sha)}): ${parts.join(" · ")}`;
+}
+
+// Newest push first; the delta column compares each push with the one before it.
+function historyTable(history: PushHistory): string {
+  const { pushes } = history;
+  const rows: string[] = [];
+  for (let i = pushes.length - 1; i >= Math.max(0, pushes.length - HISTORY_ROWS); i--) {
+    const p = pushes[i];
+    const delta = i > 0 ? formatSigned(p.score - pushes[i - 1].score) : "—";
+    rows.push(`| ${shortSha(p.sha)} | ${p.at.slice(0, 10)} | ${p.score} | ${delta} | ${cell(p.drivers.join(", ") || "none")} |`);
+  }
+  return ["| Commit | Date | Score | Δ | Drivers |", "|---|---|---:|---:|---|", ...rows].join("\n");
+}
+
+function splitTable(groups: SplitGroup[]): string {
+  const rows = groups.map((g, i) => {
+    const shown = g.files.slice(0, 3).map(code).join(", ") + (g.files.length > 3 ? ` +${g.files.length - 3} more` : "");
+    const { score, verdictEmoji } = g.result.scores;
+    return `| ${i + 1} | ${cell(g.title)} | ${cell(shown)} | ${score} ${verdictEmoji} | ${cell(g.result.driversTop3[0]?.label ?? "—")} |`;
+  });
+  return ["| # | Part | Files | Projected score | Main driver |", "|---:|---|---|---:|---|", ...rows].join("\n");
+}
+
+function actionLines(actions: string[], whatIfs: WhatIf[]): string {
+  return actions
+    .map((a) => {
+      const w = whatIfs.find((x) => x.action === a);
+      return w ? `- ${a}: _${describeWhatIf(w)}_` : `- ${a}`;
+    })
+    .join("\n");
+}
+
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`;
+}
+
+function fileCategorySections(categories: FileCategory[], cap: number): string[] {
+  return categories.map((c) => {
+    const shown = c.files.slice(0, cap).map((p) => `- ${code(p)}`);
+    const more = c.files.length - shown.length;
+    if (more > 0) shown.push(`- _…and ${more} more_`);
+    return details(`${c.title} (${c.files.length})`, shown.join("\n"));
+  });
+}
+
+function baselineLine(baseline: BaselineData): string {
+  const median = baseline.baselineMedianScore;
+  if (median === null || baseline.prs.length === 0) return "_Baseline: not available yet (no merged PR history); trend shown as n/a._";
+  const missing = baseline.missingPRs ?? 0;
+  const partial = missing > 0 ? ` · partial: ${missing} PR(s) skipped (API rate limit or errors)` : "";
+  return (
+    `_Baseline: median score ${Math.round(median)} over the last ${baseline.prs.length} merged PRs` +
+    ` · computed ${formatBaselineAge(baselineAgeDays(baseline))} ago${partial}_`
+  );
+}
+
+function modelLine(result: AnalyzeResult): string {
+  return `_Scoring model: ${result.model.id} v${result.model.version}_`;
+}
+
+function assemble(parts: string[]): string {
+  return parts.filter((p) => p !== "").join("\n\n");
+}
+
+// Room kept for the closing fence and </details> tags added after the cut.
+const CLOSERS_RESERVE = 200;
+
+// Cuts at a section boundary (or at least a line boundary, never inside a table row) and
+// closes any code fence or <details> block left open, so the rest of the page renders.
+export function truncateMarkdown(text: string, max: number, note: string): string {
+  if (text.length <= max) return text;
+  let kept = text.slice(0, Math.max(0, max - note.length - CLOSERS_RESERVE));
+  const section = kept.lastIndexOf("\n\n");
+  kept = kept.slice(0, section >= kept.length / 2 ? section : Math.max(0, kept.lastIndexOf("\n")));
+
+  let fence: string | null = null;
+  let openDetails = 0;
+  for (const line of kept.split("\n")) {
+    const m = /^\s*(`{3,}|~{3,})/.exec(line);
+    if (m) {
+      if (fence === null) fence = m[1];
+      else if (m[1][0] === fence[0] && m[1].length >= fence.length) fence = null;
+      continue;
+    }
+    if (fence !== null) continue;
+    openDetails += (line.match(/<details\b/gi) ?? []).length - (line.match(/<\/details>/gi) ?? []).length;
+  }
+
+  const closers = (fence !== null ? `\n${fence}` : "") + "\n\n</details>".repeat(Math.max(0, openDetails));
+  return kept + closers + note;
+}
+
+export function buildComment(params: CommentParams): string {
+  const { result, files, trendText, baseline, heat, classifier = DEFAULT_CLASSIFIER, criticality = null, packages = [], notes = [] } = params;
+  const { score, verdictEmoji, reviewMinutes } = result.scores;
+  const history = params.history ?? null;
+  const split = params.split ?? [];
+  const ownership = result.ownership;
+
+  const head = [
+    `### Drift Radar — Structural Risk Signal ${badge(score, verdictEmoji)}`,
+    `**Score: ${score}/100** ${verdictEmoji} · **Trend:** ${trendText} · **Review load:** ~${reviewMinutes} min`,
+    history ? sinceLastPushLine(history) : "",
+    "**Main risk drivers**\n" + (result.driversTop3.length ? result.driversTop3.map((d) => `- ${d.label}`).join("\n") : "- none"),
+    "**Suggested actions**\n" + actionLines(result.suggestedActions, params.whatIfs ?? []),
+    split.length > 0 ? `**Suggested split** (landing order; each part re-scored on its own)\n\n${splitTable(split)}` : "",
+    packages.length > 0 ? `**Packages**\n\n${packageTable(packages)}` : "",
+    ownership && (ownership.groups.length > 0 || ownership.unowned.length > 0)
+      ? `**Reviewers by ownership** (${ownership.groups.length} group(s))\n\n${ownersTable(ownership)}`
+      : "",
+    details("Score breakdown", subScoreTable(result, params.profile ?? DEFAULT_PROFILE)),
+    history && history.pushes.length >= 2 ? details(`Score history (${history.pushes.length} pushes)`, historyTable(history)) : ""
+  ];
+  const tail = [notes.length > 0 ? "**Notes**\n" + notes.map((n) => `- ${n}`).join("\n") : "", baselineLine(baseline), modelLine(result)];
+
+  // Huge PRs: shrink the per-category file lists first, then drop them, then cut hard.
+  const categories = categorizeFiles(files, heat, classifier, criticality);
+  for (const cap of FILE_LIST_CAPS) {
+    const fileParts = cap > 0 ? fileCategorySections(categories, cap) : ["_File lists omitted: too many files for one comment._"];
+    const body = assemble([...head, categories.length > 0 ? `**Files by category**\n\n${fileParts.join("\n")}` : "", ...tail]);
+    if (body.length <= MAX_COMMENT_CHARS) return body;
+  }
+
+  const note = "\n\n_…comment truncated (GitHub size limit); see the job summary or JSON report for the full result._";
+  return truncateMarkdown(assemble([...head, ...tail]), MAX_COMMENT_CHARS, note);
+}
+
+// ---------- user templates (comment-template input) ----------
+
+// Variables available to comment templates; documented in USAGE.md.
+export function templateVariables(params: CommentParams): Record<string, unknown> {
+  const { result, trendText, baseline, packages = [], notes = [] } = params;
+  const { score, verdictEmoji, reviewMinutes } = result.scores;
+  const pushes = params.history?.pushes ?? [];
+  const since = params.history?.sinceLastPush ?? null;
+  return {
+    score,
+    emoji: verdictEmoji,
+    verdict: verdictOf(verdictEmoji),
+    trend: trendText,
+    reviewMinutes,
+    drivers: result.driversTop3.map((d) => ({ key: d.key, label: d.label, contribution: Math.round(d.contribution * 10) / 10 })),
+    actions: result.suggestedActions,
+    notes,
+    counts: result.counts,
+    scores: result.scores,
+    model: result.model,
+    baseline: {
+      median: baseline.baselineMedianScore === null ? null : Math.round(baseline.baselineMedianScore),
+      prs: baseline.prs.length,
+      age: formatBaselineAge(baselineAgeDays(baseline))
+    },
+    packages: packages.map((p) => ({
+      name: p.name,
+      score: p.result.scores.score,
+      emoji: p.result.scores.verdictEmoji,
+      files: p.files,
+      driver: p.result.driversTop3[0]?.label ?? ""
+    })),
+    sinceLastPush: since && {
+      delta: since.delta,
+      previousScore: since.previous.score,
+      previousSha: since.previous.sha,
+      appeared: since.appeared,
+      resolved: since.resolved
+    },
+    history: pushes.map((p, i) => ({ sha: p.sha, score: p.score, delta: i > 0 ? p.score - pushes[i - 1].score : null, at: p.at })),
+    split: (params.split ?? []).map((g) => ({
+      title: g.title,
+      files: g.files,
+      score: g.result.scores.score,
+      emoji: g.result.scores.verdictEmoji,
+      driver: g.result.driversTop3[0]?.label ?? ""
+    })),
+    whatIfs: (params.whatIfs ?? []).map((w) => ({ action: w.action, files: w.files, from: w.from, to: w.to, text: describeWhatIf(w) })),
+    owners: (result.ownership?.groups ?? []).map((g) => ({ owners: g.owners, files: g.files })),
+    unowned: result.ownership?.unowned ?? [],
+    defaultComment: buildComment(params)
+  };
+}
+
+// Shapes come from the scoring functions themselves, so new counts and sub-scores are
+// valid template variables without touching this list.
+function templateSchema(): TemplateSchema {
+  const counts = classifyFiles([], EMPTY_HEAT);
+  return {
+    score: 0,
+    emoji: "",
+    verdict: "",
+    trend: "",
+    reviewMinutes: 0,
+    drivers: [{ key: "", label: "", contribution: 0 }],
+    actions: [""],
+    notes: [""],
+    counts,
+    scores: computeScores(counts),
+    model: { id: "", version: 0 },
+    baseline: { median: 0, prs: 0, age: "" },
+    packages: [{ name: "", score: 0, emoji: "", files: 0, driver: "" }],
+    sinceLastPush: { delta: 0, previousScore: 0, previousSha: "", appeared: [""], resolved: [""] },
+    history: [{ sha: "", score: 0, delta: 0, at: "" }],
+    split: [{ title: "", files: [""], score: 0, emoji: "", driver: "" }],
+    whatIfs: [{ action: "", files: [""], from: 0, to: 0, text: "" }],
+    owners: [{ owners: [""], files: [""] }],
+    unowned: [""],
+    defaultComment: ""
+  };
+}
+
+// Throws TemplateError listing every problem (syntax first, then unknown variables).
+export function buildCommentFromTemplate(template: string, params: CommentParams): string {
+  const tpl = compileTemplate(template);
+  const errors = validateTemplate(tpl, templateSchema());
+  if (errors.length > 0) throw new TemplateError(errors.join("; "));
+  const body = renderTemplate(tpl, templateVariables(params)).trim();
+  if (body === "") throw new TemplateError("template rendered an empty comment");
+  return truncateMarkdown(body, MAX_COMMENT_CHARS, "\n\n_…comment truncated._");
+}
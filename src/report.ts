@@ -0,0 +1,282 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as path from "path";
+import { AnalyzeResult, Driver, Scores } from "./analyze";
+import { BaselineData } from "./baseline";
+import { ApiChange } from "./api";
+import { DepChange } from "./deps";
+import { MissingCoChange } from "./coupling";
+import { PackageAnalysis } from "./workspaces";
+import { PushComparison, PushHistory } from "./history";
+import { SplitGroup, WhatIf } from "./split";
+import { ScoringModel } from "./profile";
+import { Ownership } from "./owners";
+import { formatSigned } from "./utils";
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type Verdict = "low" | "moderate" | "high";
+
+export type DriftReport = {
+  schemaVersion: number;
+  generatedAt: string;
+  repository: string;
+  pullNumber: number; // 0 for push and merge_group runs
+  event: string;
+  commitRange: { base: string | null; head: string } | null; // push and merge_group runs only
+  model: ScoringModel;
+  score: number;
+  verdict: Verdict;
+  verdictEmoji: Scores["verdictEmoji"];
+  reviewMinutes: number;
+  trend: { delta: number | null; text: string };
+  counts: AnalyzeResult["counts"];
+  scores: Scores;
+  drivers: Driver[];
+  suggestedActions: string[];
+  apiChanges: ApiChange[];
+  depChanges: DepChange[];
+  missingCoChanges: MissingCoChange[];
+  packages: PackageReport[]; // monorepo mode only
+  ownership: Ownership | null; // null without a CODEOWNERS file
+  sinceLastPush: PushComparison | null; // null on the first analyzed push (or without a PR comment)
+  split: SplitPartReport[]; // suggested sub-PRs when the score calls for a split
+  whatIfs: WhatIf[];
+  baseline: {
+    medianScore: number | null;
+    historyN: number;
+    computedAt: string;
+    missingPRs: number;
+  };
+};
+
+export type PackageReport = {
+  name: string;
+  dir: string | null;
+  files: number;
+  score: number;
+  verdict: Verdict;
+  trendDelta: number | null;
+  baselineMedianScore: number | null;
+  drivers: Driver[];
+};
+
+export type SplitPartReport = {
+  title: string;
+  files: string[];
+  score: number;
+  verdict: Verdict;
+  drivers: Driver[];
+};
+
+export function verdictOf(emoji: Scores["verdictEmoji"]): Verdict {
+  if (emoji === "🟢") return "low";
+  if (emoji === "🟡") return "moderate";
+  return "high";
+}
+
+export function buildReport(params: {
+  owner: string;
+  repo: string;
+  pullNumber: number;
+  event?: string;
+  commitRange?: { base: string | null; head: string } | null;
+  result: AnalyzeResult;
+  baseline: BaselineData;
+  trendDelta: number | null;
+  trendText: string;
+  packages?: PackageAnalysis[];
+  history?: PushHistory | null;
+  split?: SplitGroup[];
+  whatIfs?: WhatIf[];
+}): DriftReport {
+  const { owner, repo, pullNumber, result, baseline, trendDelta, trendText, packages = [] } = params;
+  const { scores } = result;
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    repository: `${owner}/${repo}`,
+    pullNumber,
+    event: params.event ?? "pull_request",
+    commitRange: params.commitRange ?? null,
+    model: result.model,
+    score: scores.score,
+    verdict: verdictOf(scores.verdictEmoji),
+    verdictEmoji: scores.verdictEmoji,
+    reviewMinutes: scores.reviewMinutes,
+    trend: { delta: trendDelta, text: trendText },
+    counts: result.counts,
+    scores,
+    drivers: result.driversTop3,
+    suggestedActions: result.suggestedActions,
+    apiChanges: result.apiChanges,
+    depChanges: result.depChanges,
+    missingCoChanges: result.missingCoChanges,
+    packages: packages.map((p) => ({
+      name: p.name,
+      dir: p.dir,
+      files: p.files,
+      score: p.result.scores.score,
+      verdict: verdictOf(p.result.scores.verdictEmoji),
+      trendDelta: p.baselineMedianScore === null ? null : p.result.scores.score - Math.round(p.baselineMedianScore),
+      baselineMedianScore: p.baselineMedianScore,
+      drivers: p.result.driversTop3
+    })),
+    ownership: result.ownership,
+    sinceLastPush: params.history?.sinceLastPush ?? null,
+    split: (params.split ?? []).map((g) => ({
+      title: g.title,
+      files: g.files,
+      score: g.result.scores.score,
+      verdict: verdictOf(g.result.scores.verdictEmoji),
+      drivers: g.result.driversTop3
+    })),
+    whatIfs: params.whatIfs ?? [],
+    baseline: {
+      medianScore: baseline.baselineMedianScore,
+      historyN: baseline.historyN,
+      computedAt: baseline.computedAt,
+      missingPRs: baseline.missingPRs ?? 0
+    }
+  };
+}
+
+export function setReportOutputs(report: DriftReport, reportPath: string | null): void {
+  core.setOutput("score", report.score);
+  core.setOutput("verdict", report.verdict);
+  core.setOutput("trend", report.trend.text);
+  core.setOutput("review-minutes", report.reviewMinutes);
+  core.setOutput("drivers", JSON.stringify(report.drivers.map((d) => d.key)));
+  if (reportPath) core.setOutput("report-path", reportPath);
+}
+
+export function resolveReportPath(input: string): string {
+  if (input) return path.resolve(process.env.GITHUB_WORKSPACE || process.cwd(), input);
+  return path.join(process.env.RUNNER_TEMP || process.cwd(), "drift-radar-report.json");
+}
+
+export function writeReportFile(report: DriftReport, reportPath: string): boolean {
+  try {
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), "utf8");
+    return true;
+  } catch (e: any) {
+    core.info(`Unable to write JSON report (non-fatal): ${e?.message ?? String(e)}`);
+    return false;
+  }
+}
+
+function fmt(n: number): string {
+  return String(Math.round(n * 10) / 10);
+}
+
+// "PR #12", or "push a1b2c3d...e4f5a6b" for runs without a pull request.
+export function reportSubject(report: DriftReport): string {
+  if (report.pullNumber > 0 || !report.commitRange) return `PR #${report.pullNumber}`;
+  const { base, head } = report.commitRange;
+  return `${report.event} ${base ? `${base.slice(0, 7)}...` : ""}${head.slice(0, 7)}`;
+}
+
+export async function writeJobSummary(report: DriftReport): Promise<void> {
+  const { scores, counts } = report;
+  try {
+    const summary = core.summary
+      .addHeading(`Drift Radar — ${reportSubject(report)}`, 2)
+      .addRaw(
+        `<p><b>Score: ${report.score}/100 ${report.verdictEmoji}</b> (${report.verdict}) · ` +
+          `Trend: ${report.trend.text} · Review Load: ~${report.reviewMinutes} min` +
+          (report.sinceLastPush ? ` · Since last push: ${formatSigned(report.sinceLastPush.delta)}` : "") +
+          `</p>`,
+        true
+      )
+      .addTable([
+        [
+          { data: "Component", header: true },
+          { data: "Value", header: true }
+        ],
+        ["Size (S_size)", fmt(scores.S_size)],
+        ["Test quality (S_quality)", fmt(scores.S_quality)],
+        ["Dependencies (S_deps)", fmt(scores.S_deps)],
+        ["Infra/config (S_infra)", fmt(scores.S_infra)],
+        ["Hotspots (S_hot)", fmt(scores.S_hot)],
+        ["Public API (S_api)", fmt(scores.S_api)],
+        ["Missing co-change (S_cochange)", fmt(scores.S_cochange)],
+        ["Cross-package spread (S_spread)", fmt(scores.S_spread)],
+        ["Ownership spread (S_owners)", fmt(scores.S_owners)],
+        ["Base", fmt(scores.base)],
+        ["Amplification", `×${fmt(scores.amp)}`]
+      ])
+      .addTable([
+        [
+          { data: "Files", header: true },
+          { data: "Lines", header: true },
+          { data: "Core", header: true },
+          { data: "Tests", header: true },
+          { data: "Deps", header: true },
+          { data: "Infra", header: true },
+          { data: "Hotspots", header: true }
+        ],
+        [counts.F, counts.L, counts.C, counts.T, counts.D, counts.I, counts.H].map(String)
+      ])
+      .addHeading("Main risk drivers", 3)
+      .addList(report.drivers.length ? report.drivers.map((d) => d.label) : ["none"])
+      .addHeading("Suggested actions", 3)
+      .addList(report.suggestedActions);
+
+    if (report.packages.length > 0) {
+      summary.addHeading("Packages", 3).addTable([
+        [
+          { data: "Package", header: true },
+          { data: "Score", header: true },
+          { data: "Trend", header: true },
+          { data: "Files", header: true },
+          { data: "Main driver", header: true }
+        ],
+        ...report.packages.map((p) => [
+          p.name,
+          `${p.score} (${p.verdict})`,
+          p.trendDelta === null ? "n/a" : formatSigned(p.trendDelta),
+          String(p.files),
+          p.drivers[0]?.label ?? "—"
+        ])
+      ]);
+    }
+
+    const ownership = report.ownership;
+    if (ownership && (ownership.groups.length > 0 || ownership.unowned.length > 0)) {
+      summary.addHeading("Reviewers by ownership", 3).addTable([
+        [
+          { data: "Owners", header: true },
+          { data: "Files", header: true }
+        ],
+        ...ownership.groups.map((g) => [g.owners.join(" "), String(g.files.length)]),
+        ...(ownership.unowned.length > 0 ? [["(no owner)", String(ownership.unowned.length)]] : [])
+      ]);
+    }
+
+    if (report.split.length > 0) {
+      summary.addHeading("Suggested split", 3).addTable([
+        [
+          { data: "Part", header: true },
+          { data: "Files", header: true },
+          { data: "Projected score", header: true },
+          { data: "Main driver", header: true }
+        ],
+        ...report.split.map((g) => [g.title, String(g.files.length), `${g.score} (${g.verdict})`, g.drivers[0]?.label ?? "—"])
+      ]);
+    }
+
+    await summary
+      .addRaw(
+        `<p>Baseline: median ${report.baseline.medianScore ?? "n/a"} over ${report.baseline.historyN} merged PRs ` +
+          `(computed ${report.baseline.computedAt}` +
+          (report.baseline.missingPRs > 0 ? `; partial, ${report.baseline.missingPRs} skipped for rate limit or API errors` : "") +
+          `). Scoring model: ${report.model.id} v${report.model.version}.</p>`,
+        true
+      )
+      .write();
+  } catch (e: any) {
+    core.info(`Unable to write job summary (non-fatal): ${e?.message ?? String(e)}`);
+  }
+}
@@ -0,0 +1,47 @@
+import type { PRFile } from "./analyze";
+import type { RuleConfig } from "./config";
+import { matchesAnyGlob } from "./utils";
+
+// Team-specific risk drivers from the config file ("migrations without a rollback",
+// "auth/ touched"). A matched rule ranks among the built-in drivers by its rank; it does
+// not change the score, which stays comparable with the baseline.
+
+export type RuleDriverKey = `rule:${string}`;
+
+export type RuleHit = {
+  key: RuleDriverKey;
+  label: string;
+  files: string[]; // changed files matching the rule's paths
+  lines: number; // their added + deleted lines
+  rank: number; // ranking only, compared with built-in driver contributions
+  action: string | null;
+};
+
+export function ruleDriverKey(id: string): RuleDriverKey {
+  return `rule:${id}`;
+}
+
+export function evaluateRules(files: PRFile[], rules: RuleConfig[]): RuleHit[] {
+  const paths = files.map((f) => f.filename);
+  const hits: RuleHit[] = [];
+  for (const rule of rules) {
+    const matched = files.filter((f) => matchesAnyGlob(f.filename, rule.paths) && !matchesAnyGlob(f.filename, rule.exclude));
+    const lines = matched.reduce((sum, f) => sum + (f.additions || 0) + (f.deletions || 0), 0);
+    if (matched.length === 0 || matched.length < rule.minFiles) continue;
+    if (rule.maxFiles !== null && matched.length > rule.maxFiles) continue;
+    if (lines < rule.minLines || (rule.maxLines !== null && lines > rule.maxLines)) continue;
+    // Co-presence and absence look at the other changed files only.
+    const others = paths.filter((p) => !matched.some((f) => f.filename === p));
+    if (rule.with.length > 0 && !others.some((p) => matchesAnyGlob(p, rule.with))) continue;
+    if (rule.without.length > 0 && others.some((p) => matchesAnyGlob(p, rule.without))) continue;
+    hits.push({
+      key: ruleDriverKey(rule.id),
+      label: rule.label,
+      files: matched.map((f) => f.filename),
+      lines,
+      rank: rule.rank,
+      action: rule.action
+    });
+  }
+  return hits;
+}
@@ -0,0 +1,246 @@
+import * as path from "path";
+import { analyze, AnalyzeOptions, AnalyzeResult, HeatMap, isExcludedFile, isPureRename, PRFile } from "./analyze";
+import { DEFAULT_CLASSIFIER, PathClassifier } from "./config";
+import { CouplingRule, findMissingCoChanges } from "./coupling";
+import { CENTRAL_FAN_IN } from "./graph";
+import { countTouchedPackages, packageOf, WorkspacePackage } from "./workspaces";
+
+// Split suggestions and what-if projections. Both re-run analyze() on a modified file list,
+// so the projected scores come from the same model as the PR score.
+
+export type SplitGroup = {
+  title: string;
+  files: string[];
+  result: AnalyzeResult;
+};
+
+export type WhatIf = {
+  action: string; // the suggested action it projects
+  files: string[]; // files the action is about
+  from: number;
+  to: number;
+};
+
+export type SplitContext = {
+  rules?: CouplingRule[]; // baseline co-change rules
+  packages?: WorkspacePackage[]; // monorepo mode
+};
+
+const MAX_GROUPS = 5;
+const DEPS_GROUP = "Dependencies";
+const INFRA_GROUP = "Infra/config";
+const DOCS_GROUP = "Docs";
+const OTHER_GROUP = "Other changes";
+const CATEGORY_GROUPS = [DEPS_GROUP, INFRA_GROUP, DOCS_GROUP];
+// Synthetic changes used by the what-ifs: a test file per core file, a small partner edit.
+const TEST_LINES_PER_FILE = 40;
+const PARTNER_LINES = 5;
+
+// Package directory in monorepo mode, else the first two directory levels (src/auth).
+function areaOf(p: string, packages: WorkspacePackage[]): string {
+  const pkg = packageOf(packages, p);
+  if (pkg) return pkg.dir;
+  const dir = path.posix.dirname(p);
+  return dir === "." ? "(root)" : dir.split("/").slice(0, 2).join("/");
+}
+
+// "src/auth/login.test.ts" and "tests/test_login.py" both test "login".
+function testStem(p: string): string {
+  return path.posix
+    .basename(p)
+    .replace(/\.[^.]+$/, "")
+    .replace(/([._-](test|spec)s?)$/i, "")
+    .replace(/^(test|spec)[._-]/i, "")
+    .toLowerCase();
+}
+
+function stem(p: string): string {
+  return path.posix.basename(p).replace(/\.[^.]+$/, "").toLowerCase();
+}
+
+function lines(f: PRFile): number {
+  return (f.additions || 0) + (f.deletions || 0);
+}
+
+// Restricts the PR-level diffs to one group and recomputes what depends on the file set.
+function optionsFor(files: PRFile[], opts: AnalyzeOptions, ctx: SplitContext): AnalyzeOptions {
+  const classifier = opts.classifier ?? DEFAULT_CLASSIFIER;
+  const inGroup = new Set(files.map((f) => f.filename));
+  const { api, deps } = opts;
+  return {
+    ...opts,
+    api: api ? { entryPoints: api.entryPoints.filter((p) => inGroup.has(p)), changes: api.changes.filter((c) => inGroup.has(c.entryPoint)) } : api,
+    deps: deps
+      ? {
+          manifests: deps.manifests.filter((p) => inGroup.has(p)),
+          changes: deps.changes.filter((c) => inGroup.has(c.manifest)),
+          transitive: files.some((f) => classifier.deps(f.filename)) ? deps.transitive : 0
+        }
+      : deps,
+    coChanges: findMissingCoChanges(files, ctx.rules ?? []),
+    packagesTouched: (ctx.packages ?? []).length > 0 ? countTouchedPackages(files, ctx.packages ?? [], opts) : 0
+  };
+}
+
+function rescore(files: PRFile[], heat: HeatMap, opts: AnalyzeOptions, ctx: SplitContext): AnalyzeResult {
+  return analyze(files, heat, optionsFor(files, opts, ctx));
+}
+
+// Union-find over group keys, so co-changed areas end up in the same sub-PR.
+class Groups {
+  private parent = new Map<string, string>();
+
+  find(k: string): string {
+    if (!this.parent.has(k)) this.parent.set(k, k);
+    const p = this.parent.get(k)!;
+    if (p === k) return k;
+    const root = this.find(p);
+    this.parent.set(k, root);
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent.set(rb, ra);
+  }
+}
+
+// Proposed sub-PRs: dependencies, infra/config and docs each on their own, code grouped by
+// area with its tests, and areas that historically change together kept together.
+// Empty when the PR does not split into at least two groups.
+export function suggestSplit(files: PRFile[], heat: HeatMap, opts: AnalyzeOptions = {}, ctx: SplitContext = {}): SplitGroup[] {
+  const classifier: PathClassifier = opts.classifier ?? DEFAULT_CLASSIFIER;
+  const packages = ctx.packages ?? [];
+  const scored = files.filter((f) => !isPureRename(f) && !isExcludedFile(f, classifier));
+
+  const keyOf = new Map<string, string>();
+  const categoryOf = (p: string) => (classifier.deps(p) ? DEPS_GROUP : classifier.infra(p) ? INFRA_GROUP : classifier.docs(p) ? DOCS_GROUP : null);
+  const code = scored.filter((f) => !classifier.tests(f.filename) && categoryOf(f.filename) === null);
+  for (const f of scored) {
+    if (!classifier.tests(f.filename)) keyOf.set(f.filename, categoryOf(f.filename) ?? areaOf(f.filename, packages));
+  }
+
+  // Tests travel with the code they test (same stem), else with code in their own area.
+  const areaLines = new Map<string, number>();
+  for (const f of code) areaLines.set(keyOf.get(f.filename)!, (areaLines.get(keyOf.get(f.filename)!) ?? 0) + lines(f));
+  const codeAreas = new Set(areaLines.keys());
+  const largestArea = [...codeAreas].sort((a, b) => areaLines.get(b)! - areaLines.get(a)!)[0];
+  for (const f of scored.filter((t) => classifier.tests(t.filename))) {
+    const subject = code.find((c) => stem(c.filename) === testStem(f.filename));
+    const area = areaOf(f.filename, packages);
+    keyOf.set(f.filename, subject ? keyOf.get(subject.filename)! : codeAreas.has(area) ? area : (largestArea ?? area));
+  }
+
+  const groups = new Groups();
+  for (const key of keyOf.values()) groups.find(key);
+  const touched = new Set(scored.map((f) => f.filename));
+  const dirKey = new Map(scored.map((f) => [path.posix.dirname(f.filename), keyOf.get(f.filename)!]));
+  for (const r of ctx.rules ?? []) {
+    const a = r.level === "file" ? (touched.has(r.from) ? keyOf.get(r.from) : undefined) : dirKey.get(r.from);
+    const b = r.level === "file" ? (touched.has(r.to) ? keyOf.get(r.to) : undefined) : dirKey.get(r.to);
+    if (a && b && !CATEGORY_GROUPS.includes(a) && !CATEGORY_GROUPS.includes(b)) groups.union(a, b);
+  }
+
+  // Root key -> member files; renames and excluded files follow their area or the largest group.
+  const members = new Map<string, PRFile[]>();
+  const titles = new Map<string, Set<string>>();
+  for (const f of scored) {
+    const key = keyOf.get(f.filename)!;
+    const root = groups.find(key);
+    members.set(root, [...(members.get(root) ?? []), f]);
+    titles.set(root, (titles.get(root) ?? new Set()).add(key));
+  }
+  if (members.size < 2) return [];
+  const groupLines = (k: string) => members.get(k)!.reduce((sum, f) => sum + lines(f), 0);
+  const bySize = () => [...members.keys()].sort((a, b) => groupLines(b) - groupLines(a));
+  for (const f of files.filter((x) => !touched.has(x.filename))) {
+    const area = areaOf(f.filename, packages);
+    const root = members.has(groups.find(area)) ? groups.find(area) : bySize()[0];
+    members.get(root)!.push(f);
+  }
+
+  // Too many areas: the smallest code areas are folded into one group.
+  if (members.size > MAX_GROUPS) {
+    const codeKeys = bySize().filter((k) => !CATEGORY_GROUPS.includes(k));
+    const overflow = codeKeys.slice(MAX_GROUPS - 1 - (members.size - codeKeys.length));
+    const merged = overflow.flatMap((k) => members.get(k)!);
+    overflow.forEach((k) => members.delete(k));
+    members.set(OTHER_GROUP, merged);
+    titles.set(OTHER_GROUP, new Set([OTHER_GROUP]));
+  }
+
+  // Suggested landing order: dependencies and infra first, docs last.
+  const rank = (k: string) => (k === DEPS_GROUP ? 0 : k === INFRA_GROUP ? 1 : k === DOCS_GROUP ? 3 : 2);
+  return [...members.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b))
+    .map(([key, part]) => {
+      const names = [...(titles.get(key) ?? [key])].sort();
+      const title = names.length > 2 ? `${names.slice(0, 2).join(" + ")} (+${names.length - 2} more)` : names.join(" + ");
+      return { title, files: part.map((f) => f.filename), result: rescore(part, heat, opts, ctx) };
+    });
+}
+
+// Where a test for a core file would go, among the layouts the tests classifier accepts.
+function testPathFor(p: string, classifier: PathClassifier): string | null {
+  const dir = path.posix.dirname(p);
+  const ext = path.posix.extname(p);
+  const base = stem(p);
+  const candidates = [
+    `${dir}/${base}.test${ext}`,
+    `${dir}/__tests__/${base}.test${ext}`,
+    `tests/${dir}/${base}.test${ext}`,
+    `tests/${base}.test${ext}`
+  ].map((c) => c.replace(/^\.\//, ""));
+  return candidates.find((c) => classifier.tests(c)) ?? null;
+}
+
+// Score projections for suggested actions that change the file list. Actions that only
+// change how the PR is reviewed (changelogs, checklists) have no what-if.
+export function projectWhatIfs(
+  files: PRFile[],
+  result: AnalyzeResult,
+  heat: HeatMap,
+  opts: AnalyzeOptions = {},
+  ctx: SplitContext = {}
+): WhatIf[] {
+  const classifier = opts.classifier ?? DEFAULT_CLASSIFIER;
+  const criticality = opts.criticality ?? null;
+  const from = result.scores.score;
+  const out: WhatIf[] = [];
+
+  const { C, T, M, deletionHeavy } = result.counts;
+  if (C > 0 && T === 0 && !deletionHeavy) {
+    const core = files.filter((f) => {
+      if (isPureRename(f) || isExcludedFile(f, classifier) || f.status === "removed") return false;
+      const fanIn = criticality?.fanIn(f.filename) ?? null;
+      return classifier.core(f.filename) || (fanIn !== null && fanIn >= CENTRAL_FAN_IN);
+    });
+    const tests: PRFile[] = [];
+    for (const f of core) {
+      const p = testPathFor(f.filename, classifier);
+      if (p) tests.push({ filename: p, status: "added", additions: Math.min(TEST_LINES_PER_FILE, Math.max(10, Math.ceil(lines(f) / 2))), deletions: 0 });
+    }
+    if (tests.length > 0) {
+      const to = rescore([...files, ...tests], heat, opts, ctx).scores.score;
+      if (to < from) out.push({ action: "Add targeted tests", files: core.map((f) => f.filename), from, to });
+    }
+  }
+
+  if (M > 0) {
+    const partners = result.missingCoChanges.filter((m) => m.level === "file").map((m) => m.to);
+    if (partners.length > 0) {
+      const edits: PRFile[] = partners.map((p) => ({ filename: p, status: "modified", additions: PARTNER_LINES, deletions: PARTNER_LINES }));
+      const to = rescore([...files, ...edits], heat, opts, ctx).scores.score;
+      if (to < from) out.push({ action: "Check whether the usual co-change partners need a matching update", files: partners, from, to });
+    }
+  }
+
+  return out;
+}
+
+export function describeWhatIf(w: WhatIf): string {
+  const shown = w.files.slice(0, 3).join(", ") + (w.files.length > 3 ? ` (+${w.files.length - 3} more)` : "");
+  const what = w.action === "Add targeted tests" ? `adding tests for ${shown}` : `updating ${shown}`;
+  return `${what.charAt(0).toUpperCase()}${what.slice(1)} would lower the score from ${w.from} to ${w.to}`;
+}
@@ -0,0 +1,206 @@
+// Minimal comment template language (a Handlebars subset, no helpers, no HTML escaping):
+//   {{path.to.value}}                 value (lists are joined with ", ")
+//   {{#if path}} … {{else}} … {{/if}}  truthy test; also `path > 40`, `path == 0`, …
+//   {{#unless path}} … {{/unless}}
+//   {{#each list}} {{this}} {{this.key}} {{@index}} {{/each}}
+// Variables are checked against a schema before rendering, so typos fail loudly.
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type Condition = { path: string; op: string | null; value: number | null };
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; line: number }
+  | { type: "if"; cond: Condition; negate: boolean; then: Node[]; else: Node[]; line: number }
+  | { type: "each"; path: string; body: Node[]; line: number };
+
+export type Template = { nodes: Node[] };
+
+const TAG_RE = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_RE = /^(?:@index|this(?:\.[A-Za-z_$][\w$]*)*|[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)$/;
+const COND_RE = /^(\S+)(?:\s*(==|!=|>=|<=|>|<)\s*(-?\d+(?:\.\d+)?))?$/;
+
+function lineAt(text: string, index: number): number {
+  return text.slice(0, index).split("\n").length;
+}
+
+function parseCondition(expr: string, line: number): Condition {
+  const m = COND_RE.exec(expr);
+  if (!m || !PATH_RE.test(m[1])) throw new TemplateError(`line ${line}: invalid condition "${expr}"`);
+  return { path: m[1], op: m[2] ?? null, value: m[3] !== undefined ? Number(m[3]) : null };
+}
+
+export function compileTemplate(text: string): Template {
+  type Frame = { kind: "root" | "if" | "unless" | "each"; nodes: Node[]; node?: Node; inElse?: boolean; line: number };
+  const root: Frame = { kind: "root", nodes: [], line: 1 };
+  const stack: Frame[] = [root];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    if (top.node?.type === "if" && top.inElse) return top.node.else;
+    return top.nodes;
+  };
+
+  let last = 0;
+  let m: RegExpExecArray | null;
+  TAG_RE.lastIndex = 0;
+  while ((m = TAG_RE.exec(text)) !== null) {
+    if (m.index > last) target().push({ type: "text", value: text.slice(last, m.index) });
+    last = m.index + m[0].length;
+    const tag = m[1];
+    const line = lineAt(text, m.index);
+
+    const open = /^#(if|unless|each)\s+(.+)$/.exec(tag);
+    if (open) {
+      const kind = open[1] as "if" | "unless" | "each";
+      let node: Node;
+      if (kind === "each") {
+        if (!PATH_RE.test(open[2])) throw new TemplateError(`line ${line}: invalid list "${open[2]}"`);
+        node = { type: "each", path: open[2], body: [], line };
+      } else {
+        node = { type: "if", cond: parseCondition(open[2], line), negate: kind === "unless", then: [], else: [], line };
+      }
+      target().push(node);
+      stack.push({ kind, nodes: node.type === "each" ? node.body : (node as { then: Node[] }).then, node, line });
+      continue;
+    }
+
+    const close = /^\/(if|unless|each)$/.exec(tag);
+    if (close) {
+      const top = stack[stack.length - 1];
+      if (top.kind !== close[1]) {
+        throw new TemplateError(`line ${line}: {{/${close[1]}}} does not close ${top.kind === "root" ? "any block" : `{{#${top.kind}}} from line ${top.line}`}`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if ((top.kind !== "if" && top.kind !== "unless") || top.inElse) throw new TemplateError(`line ${line}: unexpected {{else}}`);
+      top.inElse = true;
+      continue;
+    }
+
+    if (!PATH_RE.test(tag)) throw new TemplateError(`line ${line}: invalid tag "{{${tag}}}"`);
+    target().push({ type: "var", path: tag, line });
+  }
+  if (last < text.length) target().push({ type: "text", value: text.slice(last) });
+
+  if (stack.length > 1) {
+    const top = stack[stack.length - 1];
+    throw new TemplateError(`line ${top.line}: {{#${top.kind}}} is never closed`);
+  }
+  return { nodes: root.nodes };
+}
+
+// ---------- validation ----------
+
+// Schema values are examples: objects list their keys, arrays hold one element example.
+export type TemplateSchema = Record<string, unknown>;
+
+function schemaAt(schema: unknown, segments: string[]): { ok: boolean; value: unknown } {
+  let cur = schema;
+  for (const seg of segments) {
+    if (cur === null || typeof cur !== "object" || Array.isArray(cur) || !(seg in (cur as object))) return { ok: false, value: undefined };
+    cur = (cur as Record<string, unknown>)[seg];
+  }
+  return { ok: true, value: cur };
+}
+
+function resolveSchema(path: string, schema: TemplateSchema, scopes: unknown[]): { ok: boolean; value: unknown } {
+  if (path === "@index") return { ok: scopes.length > 0, value: 0 };
+  const [head, ...rest] = path.split(".");
+  if (head === "this") {
+    if (scopes.length === 0) return { ok: false, value: undefined };
+    return schemaAt(scopes[scopes.length - 1], rest);
+  }
+  return schemaAt(schema, [head, ...rest]);
+}
+
+export function validateTemplate(tpl: Template, schema: TemplateSchema): string[] {
+  const errors: string[] = [];
+  const walk = (nodes: Node[], scopes: unknown[]) => {
+    for (const n of nodes) {
+      if (n.type === "var") {
+        if (!resolveSchema(n.path, schema, scopes).ok) errors.push(`line ${n.line}: unknown variable "${n.path}"`);
+      } else if (n.type === "if") {
+        if (!resolveSchema(n.cond.path, schema, scopes).ok) errors.push(`line ${n.line}: unknown variable "${n.cond.path}"`);
+        walk(n.then, scopes);
+        walk(n.else, scopes);
+      } else if (n.type === "each") {
+        const r = resolveSchema(n.path, schema, scopes);
+        if (!r.ok) errors.push(`line ${n.line}: unknown variable "${n.path}"`);
+        else if (!Array.isArray(r.value)) errors.push(`line ${n.line}: "${n.path}" is not a list`);
+        walk(n.body, [...scopes, Array.isArray(r.value) ? r.value[0] : undefined]);
+      }
+    }
+  };
+  walk(tpl.nodes, []);
+  return errors;
+}
+
+// ---------- rendering ----------
+
+type Scope = { item: unknown; index: number };
+
+function valueAt(path: string, vars: Record<string, unknown>, scopes: Scope[]): unknown {
+  if (path === "@index") return scopes[scopes.length - 1]?.index;
+  const [head, ...rest] = path.split(".");
+  let cur: unknown = head === "this" ? scopes[scopes.length - 1]?.item : vars[head];
+  for (const seg of rest) cur = cur !== null && typeof cur === "object" ? (cur as Record<string, unknown>)[seg] : undefined;
+  return cur;
+}
+
+function truthy(v: unknown): boolean {
+  return Array.isArray(v) ? v.length > 0 : Boolean(v);
+}
+
+function test(cond: Condition, v: unknown): boolean {
+  if (cond.op === null || cond.value === null) return truthy(v);
+  const n = Number(v);
+  switch (cond.op) {
+    case "==":
+      return n === cond.value;
+    case "!=":
+      return n !== cond.value;
+    case ">":
+      return n > cond.value;
+    case ">=":
+      return n >= cond.value;
+    case "<":
+      return n < cond.value;
+    default:
+      return n <= cond.value;
+  }
+}
+
+function stringify(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (Array.isArray(v)) return v.map(stringify).join(", ");
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+export function renderTemplate(tpl: Template, vars: Record<string, unknown>): string {
+  const render = (nodes: Node[], scopes: Scope[]): string =>
+    nodes
+      .map((n) => {
+        if (n.type === "text") return n.value;
+        if (n.type === "var") return stringify(valueAt(n.path, vars, scopes));
+        if (n.type === "if") {
+          const pass = test(n.cond, valueAt(n.cond.path, vars, scopes)) !== n.negate;
+          return render(pass ? n.then : n.else, scopes);
+        }
+        const list = valueAt(n.path, vars, scopes);
+        if (!Array.isArray(list)) return "";
+        return list.map((item, index) => render(n.body, [...scopes, { item, index }])).join("");
+      })
+      .join("");
+  return render(tpl.nodes, []);
+}
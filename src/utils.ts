@@ -64,3 +64,57 @@ export function isDepsPath(p: string): boolean {
   ]);
   return depsFiles.has(lower);
 }
+
+// Glob semantics: patterns match the full repo-relative path (case-insensitive).
+// "**" spans any number of segments, "*" and "?" stay within one segment,
+// "{a,b}" lists alternatives.
+const globCache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob);
+  if (cached) return cached;
+
+  let re = "";
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          if (glob[i + 2] === "/") {
+            re += "(?:.*/)?";
+            i += 2;
+          } else {
+            re += ".*";
+            i += 1;
+          }
+          continue;
+        }
+        i += 1;
+      }
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "{") {
+      inBraces = true;
+      re += "(?:";
+    } else if (ch === "}" && inBraces) {
+      inBraces = false;
+      re += ")";
+    } else if (ch === "," && inBraces) {
+      re += "|";
+    } else {
+      re += ch.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const out = new RegExp(`^${re}$`, "i");
+  globCache.set(glob, out);
+  return out;
+}
+
+export function matchesAnyGlob(p: string, globs: string[]): boolean {
+  return globs.some((g) => globToRegExp(g).test(p));
+}
@@ -0,0 +1,205 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { analyze, AnalyzeOptions, AnalyzeResult, EMPTY_HEAT, HeatMap, hotspotFiles, isExcludedFile, isPureRename, PRFile } from "./analyze";
+import type { BaselinePR } from "./baseline";
+import { DEFAULT_CLASSIFIER, MonorepoConfig } from "./config";
+import { matchesAnyGlob, median } from "./utils";
+
+// Monorepo mode: the PR is split by workspace package and each part is scored on its own,
+// next to the overall score (which adds cross-package spread as a signal).
+
+export type WorkspacePackage = {
+  name: string;
+  dir: string; // repo-relative, no trailing slash
+};
+
+export type PackageAnalysis = {
+  name: string;
+  dir: string | null; // null = files outside every package
+  files: number;
+  result: AnalyzeResult;
+  baselineMedianScore: number | null;
+  hotspots: number; // hotspot files of the package in the baseline
+};
+
+export const ROOT_PACKAGE = "(root)";
+
+const SKIP_DIRS = new Set([".git", "node_modules", "dist", "build", "out", "coverage", ".next", ".drift-radar-cache"]);
+const MAX_DEPTH = 6;
+
+function readJson(file: string): any | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function readYaml(file: string): any | null {
+  try {
+    return parseYaml(fs.readFileSync(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function stringList(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((x): x is string => typeof x === "string" && x.trim() !== "") : [];
+}
+
+// Workspace globs from package.json (npm, yarn), pnpm-workspace.yaml and lerna.json.
+export function detectWorkspaceGlobs(root: string): string[] {
+  const pkg = readJson(path.join(root, "package.json"));
+  const workspaces = Array.isArray(pkg?.workspaces) ? pkg.workspaces : pkg?.workspaces?.packages;
+  const globs = [
+    ...stringList(workspaces),
+    ...stringList(readYaml(path.join(root, "pnpm-workspace.yaml"))?.packages),
+    ...stringList(readJson(path.join(root, "lerna.json"))?.packages)
+  ];
+  return [...new Set(globs)];
+}
+
+function normalizeDirGlob(g: string): string {
+  return g.trim().replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+// Expands directory globs against the checkout. Detected workspaces need a package.json;
+// configured globs accept any directory (non-JS packages).
+export function expandPackageDirs(root: string, globs: string[], requireManifest: boolean): WorkspacePackage[] {
+  const include = globs.filter((g) => !g.startsWith("!")).map(normalizeDirGlob).filter((g) => g && g !== ".");
+  const exclude = globs.filter((g) => g.startsWith("!")).map((g) => normalizeDirGlob(g.slice(1)));
+  if (include.length === 0) return [];
+
+  const out: WorkspacePackage[] = [];
+  const stack: [string, number][] = [["", 0]];
+  while (stack.length > 0) {
+    const [rel, depth] = stack.pop()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(root, rel), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const e of entries) {
+      if (!e.isDirectory() || SKIP_DIRS.has(e.name)) continue;
+      const dir = rel ? `${rel}/${e.name}` : e.name;
+      if (matchesAnyGlob(dir, include) && !matchesAnyGlob(dir, exclude)) {
+        const manifest = readJson(path.join(root, dir, "package.json"));
+        if (manifest || !requireManifest) {
+          out.push({ name: typeof manifest?.name === "string" ? manifest.name : dir, dir });
+        }
+      }
+      if (depth + 1 < MAX_DEPTH) stack.push([dir, depth + 1]);
+    }
+  }
+  return out.sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+// Empty when monorepo mode is off or fewer than two packages are found (auto mode).
+export function resolvePackages(root: string, config: MonorepoConfig): WorkspacePackage[] {
+  if (config.enabled === false) return [];
+  const packages = config.packages
+    ? expandPackageDirs(root, config.packages, false)
+    : expandPackageDirs(root, detectWorkspaceGlobs(root), true);
+  if (config.enabled === null && packages.length < 2) return [];
+  return packages;
+}
+
+function isUnder(p: string, dir: string): boolean {
+  return p === dir || p.startsWith(`${dir}/`);
+}
+
+// Deepest package containing the path (nested workspaces win over their parent).
+export function packageOf(packages: WorkspacePackage[], p: string): WorkspacePackage | null {
+  let best: WorkspacePackage | null = null;
+  for (const pkg of packages) {
+    if (isUnder(p, pkg.dir) && (!best || pkg.dir.length > best.dir.length)) best = pkg;
+  }
+  return best;
+}
+
+// Files keyed by package name; files outside every package go under ROOT_PACKAGE.
+export function splitByPackage(files: PRFile[], packages: WorkspacePackage[]): Map<string, PRFile[]> {
+  const out = new Map<string, PRFile[]>();
+  for (const f of files) {
+    const key = packageOf(packages, f.filename)?.name ?? ROOT_PACKAGE;
+    const list = out.get(key) ?? [];
+    list.push(f);
+    out.set(key, list);
+  }
+  return out;
+}
+
+// Packages with at least one scored change (pure renames and generated files do not count).
+export function countTouchedPackages(files: PRFile[], packages: WorkspacePackage[], opts: AnalyzeOptions = {}): number {
+  const classifier = opts.classifier ?? DEFAULT_CLASSIFIER;
+  const touched = new Set<string>();
+  for (const f of files) {
+    if (isPureRename(f) || isExcludedFile(f, classifier)) continue;
+    const pkg = packageOf(packages, f.filename);
+    if (pkg) touched.add(pkg.name);
+  }
+  return touched.size;
+}
+
+// Restricts the PR-level diffs (API, dependencies, co-change) to one package.
+function optionsForPackage(opts: AnalyzeOptions, dir: string | null, packages: WorkspacePackage[]): AnalyzeOptions {
+  const inside = (p: string) => (dir === null ? packageOf(packages, p) === null : packageOf(packages, p)?.dir === dir);
+  const { api, deps, coChanges } = opts;
+  return {
+    ...opts,
+    api: api ? { entryPoints: api.entryPoints.filter(inside), changes: api.changes.filter((c) => inside(c.entryPoint)) } : api,
+    deps: deps
+      ? {
+          manifests: deps.manifests.filter(inside),
+          changes: deps.changes.filter((c) => inside(c.manifest)),
+          transitive: dir === null ? deps.transitive : 0 // lockfiles live at the workspace root
+        }
+      : deps,
+    coChanges: (coChanges ?? []).filter((m) => inside(m.level === "file" ? m.from : `${m.from}/`)),
+    packagesTouched: 0
+  };
+}
+
+// Per-package median over the recorded baseline PRs (each PR scored on its files in the package),
+// with the same inputs as the live package score: ownership counts, package spread does not.
+function packageBaselineMedian(records: BaselinePR[], packages: WorkspacePackage[], name: string, opts: AnalyzeOptions): number | null {
+  const { classifier, criticality, profile, codeowners } = opts;
+  const scores: number[] = [];
+  for (const pr of records) {
+    const part = splitByPackage(pr.files, packages).get(name);
+    if (part && part.length > 0) {
+      scores.push(analyze(part, EMPTY_HEAT, { classifier, criticality, profile, codeowners, packagesTouched: 0 }).scores.score);
+    }
+  }
+  return median(scores);
+}
+
+export function analyzePackages(
+  files: PRFile[],
+  packages: WorkspacePackage[],
+  heat: HeatMap,
+  opts: AnalyzeOptions = {},
+  baselinePRs: BaselinePR[] = []
+): PackageAnalysis[] {
+  const out: PackageAnalysis[] = [];
+  const hotByDir = new Map<string | null, number>();
+  for (const p of hotspotFiles(heat)) {
+    const dir = packageOf(packages, p)?.dir ?? null;
+    hotByDir.set(dir, (hotByDir.get(dir) ?? 0) + 1);
+  }
+
+  for (const [name, part] of splitByPackage(files, packages)) {
+    const dir = packages.find((p) => p.name === name)?.dir ?? null;
+    out.push({
+      name,
+      dir,
+      files: part.length,
+      result: analyze(part, heat, optionsForPackage(opts, dir, packages)),
+      baselineMedianScore: packageBaselineMedian(baselinePRs, packages, name, opts),
+      hotspots: hotByDir.get(dir) ?? 0
+    });
+  }
+  return out.sort((a, b) => b.result.scores.score - a.result.scores.score);
+}
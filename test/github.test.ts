@@ -0,0 +1,147 @@
+import { test, before, after, beforeEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { exportEtags, ghRequest, importEtags, makeOctokit, RateLimitBudgetError, toPRFile } from "../src/github";
+
+// ghRequest against a local mock of the GitHub API: each test queues the responses the
+// server hands out, in order, and inspects the requests it received.
+
+type MockResponse = { status: number; headers?: Record<string, string>; body?: unknown; delayMs?: number };
+type Received = { method: string; url: string; headers: http.IncomingHttpHeaders; at: number };
+
+let server: http.Server;
+let queue: MockResponse[] = [];
+let received: Received[] = [];
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    received.push({ method: req.method ?? "", url: req.url ?? "", headers: req.headers, at: Date.now() });
+    const next = queue.shift() ?? { status: 500, body: { message: "no mock response queued" } };
+    setTimeout(() => {
+      res.writeHead(next.status, { "content-type": "application/json", ...next.headers });
+      res.end(next.body === undefined || next.status === 304 ? undefined : JSON.stringify(next.body));
+    }, next.delayMs ?? 0);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  queue = [];
+  received = [];
+});
+
+const ROUTE = "GET /repos/{owner}/{repo}/pulls/{pull_number}";
+const PARAMS = { owner: "o", repo: "r", pull_number: 1 };
+const fast = { baseDelayMs: 5, maxDelayMs: 5000, maxRetries: 3 };
+
+test("backs off and retries a 403 secondary rate limit", async () => {
+  queue = [
+    { status: 403, body: { message: "You have exceeded a secondary rate limit." } },
+    { status: 200, body: { number: 1 } }
+  ];
+  const res = await ghRequest(makeOctokit("t", fast), ROUTE, PARAMS);
+  assert.equal(res.status, 200);
+  assert.deepEqual(res.data, { number: 1 });
+  assert.equal(received.length, 2);
+});
+
+test("does not retry a plain 403", async () => {
+  queue = [{ status: 403, body: { message: "Resource not accessible by integration" } }];
+  await assert.rejects(ghRequest(makeOctokit("t", fast), ROUTE, PARAMS), (e: any) => e.status === 403);
+  assert.equal(received.length, 1);
+});
+
+test("waits for retry-after on 429", async () => {
+  queue = [
+    { status: 429, headers: { "retry-after": "1" }, body: { message: "Too many requests" } },
+    { status: 200, body: { number: 1 } }
+  ];
+  const res = await ghRequest(makeOctokit("t", fast), ROUTE, PARAMS);
+  assert.equal(res.status, 200);
+  assert.equal(received.length, 2);
+  assert.ok(received[1].at - received[0].at >= 950, "second attempt waited for retry-after");
+});
+
+test("retries 5xx responses and gives up after maxRetries", async () => {
+  queue = [
+    { status: 502, body: { message: "Bad gateway" } },
+    { status: 503, body: { message: "Unavailable" } },
+    { status: 200, body: { number: 1 } }
+  ];
+  assert.equal((await ghRequest(makeOctokit("t", fast), ROUTE, PARAMS)).status, 200);
+  assert.equal(received.length, 3);
+
+  received = [];
+  queue = Array.from({ length: 5 }, () => ({ status: 500, body: { message: "Server error" } }));
+  await assert.rejects(ghRequest(makeOctokit("t", { ...fast, maxRetries: 2 }), ROUTE, PARAMS), (e: any) => e.status === 500);
+  assert.equal(received.length, 3);
+});
+
+test("revalidates GETs with the ETag and serves 304s from the cache", async () => {
+  const octokit = makeOctokit("t", fast);
+  queue = [
+    { status: 200, headers: { etag: '"v1"' }, body: { number: 1, title: "cached" } },
+    { status: 304, headers: { etag: '"v1"' } }
+  ];
+  await ghRequest(octokit, ROUTE, PARAMS);
+  const res = await ghRequest(octokit, ROUTE, PARAMS);
+  assert.equal(res.status, 304);
+  assert.deepEqual(res.data, { number: 1, title: "cached" });
+  assert.equal(received[0].headers["if-none-match"], undefined);
+  assert.equal(received[1].headers["if-none-match"], '"v1"');
+});
+
+test("saved ETags make the next client's first request conditional", async () => {
+  const first = makeOctokit("t", fast);
+  queue = [{ status: 200, headers: { etag: '"v2"' }, body: { number: 1 } }];
+  await ghRequest(first, ROUTE, PARAMS);
+  const saved = JSON.parse(JSON.stringify(exportEtags(first)));
+
+  const second = makeOctokit("t", fast);
+  importEtags(second, saved);
+  queue = [{ status: 304, headers: { etag: '"v2"' } }];
+  const res = await ghRequest(second, ROUTE, PARAMS);
+  assert.deepEqual(res.data, { number: 1 });
+  assert.equal(received[1].headers["if-none-match"], '"v2"');
+});
+
+test("low-priority calls stop at the reserve; normal calls go on", async () => {
+  const octokit = makeOctokit("t", { ...fast, reserve: 100 });
+  queue = [
+    { status: 200, headers: { "x-ratelimit-remaining": "80", "x-ratelimit-reset": "0" }, body: { number: 1 } },
+    { status: 200, body: { number: 2 } }
+  ];
+  await ghRequest(octokit, ROUTE, PARAMS);
+  await assert.rejects(ghRequest(octokit, ROUTE, { ...PARAMS, pull_number: 2 }, "low"), RateLimitBudgetError);
+  assert.equal(received.length, 1);
+  assert.equal((await ghRequest(octokit, ROUTE, { ...PARAMS, pull_number: 2 })).status, 200);
+});
+
+test("a request waiting out its backoff does not hold a concurrency slot", async () => {
+  const octokit = makeOctokit("t", { ...fast, concurrency: 1, baseDelayMs: 400 });
+  queue = [{ status: 503, body: { message: "Unavailable" } }, { status: 200, body: {} }, { status: 200, body: {} }];
+  const a = ghRequest(octokit, ROUTE, PARAMS);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  const b = ghRequest(octokit, ROUTE, { ...PARAMS, pull_number: 2 });
+  await Promise.all([a, b]);
+  // #2 goes out while #1 is backing off, not after its retry.
+  assert.deepEqual(
+    received.map((r) => r.url.replace(/\?.*$/, "")),
+    ["/repos/o/r/pulls/1", "/repos/o/r/pulls/2", "/repos/o/r/pulls/1"]
+  );
+});
+
+test("binary detection: extensions and patch-less files without changes only", () => {
+  assert.equal(toPRFile({ filename: "pkg/__init__.py", status: "added", additions: 0, deletions: 0, changes: 0 }).binary, false);
+  assert.equal(toPRFile({ filename: "logo.png", status: "added", additions: 0, deletions: 0, changes: 0 }).binary, true);
+  // Large text diffs come without a patch but keep their line counts.
+  assert.equal(toPRFile({ filename: "src/big.ts", status: "modified", additions: 4000, deletions: 3500, changes: 7500 }).binary, false);
+  assert.equal(toPRFile({ filename: "assets/model.onnx", status: "modified", additions: 0, deletions: 0, changes: 0 }).binary, true);
+  assert.equal(toPRFile({ filename: "a.ts", status: "modified", additions: 1, deletions: 0, changes: 1, patch: "@@ +1 @@" }).binary, false);
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { CommentState, parseCommentState, serializeCommentState } from "../src/history";
+
+function stateWith(n: number): CommentState {
+  const pushes = Array.from({ length: n }, (_, i) => ({
+    sha: i.toString(16).padStart(40, "0"),
+    score: i,
+    drivers: ["Large change size", "Core changed without tests", "rule:migrations-without-rollback"],
+    at: new Date(Date.UTC(2026, 0, 1, i)).toISOString()
+  }));
+  return { version: 1, pushes };
+}
+
+test("serialized state round-trips", () => {
+  const state = stateWith(3);
+  assert.deepEqual(parseCommentState(`<!-- drift-radar -->\n${serializeCommentState(state)}\nbody`), state);
+});
+
+test("oldest pushes are dropped to fit the size budget", () => {
+  const state = stateWith(20);
+  const full = serializeCommentState(state);
+  const text = serializeCommentState(state, Math.floor(full.length / 2));
+  assert.ok(text.length <= full.length / 2);
+  const kept = parseCommentState(text).pushes;
+  assert.ok(kept.length > 0 && kept.length < 20);
+  assert.deepEqual(kept, state.pushes.slice(-kept.length));
+});
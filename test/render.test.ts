@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { truncateMarkdown } from "../src/render";
+
+const NOTE = "\n\n_…truncated._";
+
+test("short bodies are left alone", () => {
+  assert.equal(truncateMarkdown("| a | b |", 1000, NOTE), "| a | b |");
+});
+
+test("cuts at a line boundary, never inside a table row", () => {
+  const rows = Array.from({ length: 200 }, (_, i) => `| row ${i} | ${"x".repeat(20)} |`);
+  const body = ["| Col | Value |", "|---|---|", ...rows].join("\n");
+  const out = truncateMarkdown(body, 1500, NOTE);
+  assert.ok(out.length <= 1500);
+  assert.ok(out.endsWith(NOTE));
+  for (const line of out.slice(0, -NOTE.length).split("\n")) assert.match(line, /^\|.*\|$/);
+});
+
+test("closes open code fences and <details> blocks", () => {
+  const body = [
+    "**Intro**",
+    "<details>\n<summary>Files</summary>\n\n" + Array.from({ length: 100 }, (_, i) => `- \`file-${i}.ts\``).join("\n") + "\n\n</details>",
+    "<details>\n<summary>Log</summary>\n\n```\n" + Array.from({ length: 300 }, (_, i) => `line ${i}`).join("\n") + "\n```\n\n</details>"
+  ].join("\n\n");
+  const out = truncateMarkdown(body, 2500, NOTE);
+  assert.ok(out.length <= 2500);
+  assert.equal((out.match(/<details>/g) ?? []).length, (out.match(/<\/details>/g) ?? []).length);
+  assert.equal((out.match(/^```$/gm) ?? []).length % 2, 0);
+  assert.ok(out.endsWith("</details>" + NOTE));
+});